@@ -0,0 +1,44 @@
+// Minimal Open Library-compatible server for developing the ISBN lookup offline.
+// Run with `npm run metadata-stub`, then start the app with
+// VITE_METADATA_URL=http://localhost:3001 npm run dev
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const editions = {
+  '9780306406157': {
+    title: 'Example Book',
+    number_of_pages: 320,
+    languages: [{ key: '/languages/eng' }],
+    authors: [{ key: '/authors/OL1A' }]
+  },
+  '9789100126612': {
+    title: 'Exempelboken',
+    number_of_pages: 212,
+    languages: [{ key: '/languages/swe' }],
+    authors: [{ key: '/authors/OL2A' }]
+  }
+};
+
+const authors = {
+  OL1A: { name: 'Jane Example' },
+  OL2A: { name: 'Sven Exempel' }
+};
+
+createServer((request, response) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  const isbnMatch = /^\/isbn\/([\dX]+)\.json$/.exec(url.pathname);
+  const authorMatch = /^\/authors\/(\w+)\.json$/.exec(url.pathname);
+  const body = isbnMatch ? editions[isbnMatch[1]] : authorMatch ? authors[authorMatch[1]] : undefined;
+
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Content-Type', 'application/json');
+  if (!body) {
+    response.statusCode = 404;
+    response.end(JSON.stringify({ error: 'notfound' }));
+    return;
+  }
+  response.end(JSON.stringify(body));
+}).listen(PORT, () => {
+  console.log(`Metadata stub listening on http://localhost:${PORT}`);
+});
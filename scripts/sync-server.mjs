@@ -0,0 +1,124 @@
+// Reference server for the sync protocol in docs/sync-protocol.md.
+// Run with `npm run sync-server`. Records are kept in a JSON file, which is
+// plenty for one person's library.
+//   PORT        port to listen on (default 8787)
+//   SYNC_DATA   path of the data file (default sync-data.json)
+//   SYNC_TOKEN  if set, clients must send it as a bearer token
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA || 'sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN || '';
+
+// { seq, records: { [id]: { id, version, updatedAt, deleted, book, seq } } }
+const data = existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf-8'))
+  : { seq: 0, records: {} };
+
+function save() {
+  // Write to a temporary file first so a crash never leaves half a file behind
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(data));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+}
+
+function toRecord({ seq, ...record }) {
+  return record;
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(body || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function pull(since) {
+  const records = Object.values(data.records)
+    .filter(record => record.seq > since)
+    .sort((a, b) => a.seq - b.seq)
+    .map(toRecord);
+  return { records, cursor: data.seq };
+}
+
+function push(changes) {
+  const accepted = [];
+  const conflicts = [];
+
+  for (const change of changes) {
+    if (typeof change?.id !== 'string' || typeof change.baseVersion !== 'number') continue;
+    const current = data.records[change.id];
+    if (current && current.version !== change.baseVersion) {
+      conflicts.push(toRecord(current));
+      continue;
+    }
+
+    const version = (current?.version || 0) + 1;
+    data.seq += 1;
+    data.records[change.id] = {
+      id: change.id,
+      version,
+      updatedAt: change.updatedAt,
+      deleted: Boolean(change.deleted),
+      book: change.deleted ? undefined : change.book,
+      seq: data.seq
+    };
+    accepted.push({ id: change.id, version });
+  }
+
+  if (accepted.length > 0) save();
+  return { accepted, conflicts };
+}
+
+function send(response, status, body) {
+  response.statusCode = status;
+  response.end(JSON.stringify(body));
+}
+
+createServer(async (request, response) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  response.setHeader('Content-Type', 'application/json');
+
+  if (request.method === 'OPTIONS') {
+    response.statusCode = 204;
+    response.end();
+    return;
+  }
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(response, 401, { error: 'unauthorized' });
+    return;
+  }
+  if (url.pathname !== '/books') {
+    send(response, 404, { error: 'notfound' });
+    return;
+  }
+
+  if (request.method === 'GET') {
+    send(response, 200, pull(Number(url.searchParams.get('since')) || 0));
+  } else if (request.method === 'POST') {
+    try {
+      const body = await readBody(request);
+      send(response, 200, push(Array.isArray(body.records) ? body.records : []));
+    } catch {
+      send(response, 400, { error: 'invalid json' });
+    }
+  } else {
+    send(response, 405, { error: 'method not allowed' });
+  }
+}).listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}, data in ${DATA_FILE}`);
+});
@@ -1,84 +1,293 @@
-import { useEffect, useState } from 'react'
-import { initDB, getAllBooks, addBook, updateBook, deleteBook } from './db/indexedDB'
-import type { Book, BookInput } from './types/book'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  initDB,
+  queryBooks,
+  getBookById,
+  addBook,
+  updateBook,
+  deleteBook,
+  restoreBook,
+  saveCover,
+  deleteCover,
+  getTrashRetentionDays,
+  purgeExpiredTrash
+} from './db/indexedDB'
+import type { Book, BookInput, ReadingStatus } from './types/book'
+import type { BookFilters } from './types/filters'
+import type { CoverChange } from './types/cover'
+import type { TrashedBook } from './types/trash'
+import type { ListPreferences } from './types/listPreferences'
+import { filtersFromSearchParams, filtersToSearchParams, hasActiveFilters } from './utils/filters'
+import { loadListPreferences, saveListPreferences, sortBooks, groupBooks } from './utils/sorting'
+import { parseRoute, routeHash, type Panel, type Route } from './utils/routes'
+import { BookCard } from './components/BookCard'
 import { BookForm } from './components/BookForm'
 import { BookList } from './components/BookList'
-import { BookScrollList } from './components/BookScrollList'
+import { BackupPanel } from './components/BackupPanel'
+import { GoodreadsImport } from './components/GoodreadsImport'
+import { KindleImport } from './components/KindleImport'
+import { CsvExport } from './components/CsvExport'
+import { FilterBar } from './components/FilterBar'
+import { SortControls } from './components/SortControls'
+import { ShelfRows } from './components/ShelfRows'
+import { QuotesBrowser } from './components/QuotesBrowser'
+import { RandomQuote } from './components/RandomQuote'
+import { StatusShelves } from './components/StatusShelves'
+import { StatsDashboard } from './components/StatsDashboard'
+import { GoalWidget } from './components/GoalWidget'
+import { SeriesView } from './components/SeriesView'
+import { TagManager } from './components/TagManager'
+import { TrashView } from './components/TrashView'
+import { SyncPanel } from './components/SyncPanel'
+import { UndoToast } from './components/UndoToast'
+import { UpdateBanner } from './components/UpdateBanner'
+import { LibraryOptionsEditor } from './components/LibraryOptionsEditor'
+import { NotFound } from './components/NotFound'
+import { useLibraryOptions } from './components/LibraryOptionsContext'
+import { useShelves } from './components/ShelvesContext'
+import { useTagStyles } from './components/TagStylesContext'
 
 function App() {
   const [dbReady, setDbReady] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [books, setBooks] = useState<Book[]>([])
-  const [showForm, setShowForm] = useState(false)
-  const [editingBook, setEditingBook] = useState<Book | null>(null)
+  // The page is chosen by the location hash, e.g. #/book/123
+  const [hash, setHash] = useState(window.location.hash)
+  const route = useMemo(() => parseRoute(hash), [hash])
+  // The book of a detail or edit page; null once it turned out not to exist
+  const [routeBook, setRouteBook] = useState<{ id: string; book: Book | null } | null>(null)
+  // How many pages of the app come before the current history entry, so leaving a
+  // page only goes back while that stays in the app. Each entry keeps its depth in history.state.
+  const historyDepth = useRef<number>(window.history.state?.depth ?? 0)
+  const [trashedBook, setTrashedBook] = useState<TrashedBook | null>(null)
+  const [filters, setFilters] = useState<BookFilters>(() =>
+    filtersFromSearchParams(new URLSearchParams(window.location.search))
+  )
+  // Bumped after every load so widgets reading the database can refresh
+  const [libraryVersion, setLibraryVersion] = useState(0)
+  const [listPreferences, setListPreferences] = useState<ListPreferences>(loadListPreferences)
+  // Ignore results from queries that were superseded by newer filters
+  const latestQuery = useRef(0)
+
+  // Books on the selected status shelf; `books` holds every shelf so tabs can show counts
+  const shelfBooks = useMemo(
+    () => (filters.status ? books.filter(book => book.status === filters.status) : books),
+    [books, filters.status]
+  )
+  const sortedBooks = useMemo(() => sortBooks(shelfBooks, listPreferences), [shelfBooks, listPreferences])
+  const { languageName, formatName, refresh: refreshLibraryOptions } = useLibraryOptions()
+  const { refresh: refreshShelves } = useShelves()
+  const { refresh: refreshTagStyles } = useTagStyles()
+  const routeBookId = route.name === 'book' || route.name === 'edit' ? route.id : undefined
+  const currentBook = routeBook && routeBook.id === routeBookId ? routeBook.book : undefined
+  const panel = route.name === 'panel' ? route.panel : undefined
+  const bookGroups = useMemo(() => {
+    const { groupBy } = listPreferences
+    if (groupBy === 'none') return undefined
+    const getLabel = groupBy === 'language' ? languageName : groupBy === 'format' ? formatName : undefined
+    return groupBooks(sortedBooks, groupBy, getLabel)
+  }, [sortedBooks, listPreferences.groupBy, languageName, formatName])
 
   useEffect(() => {
     initDB()
       .then(() => {
         setDbReady(true)
-        loadBooks()
+        // Books deleted longer ago than the retention period are purged on startup
+        getTrashRetentionDays()
+          .then(purgeExpiredTrash)
+          .catch(err => console.warn('Failed to purge trash:', err))
       })
       .catch((err) => {
         setError(err instanceof Error ? err.message : 'Failed to initialize database')
       })
   }, [])
 
+  useEffect(() => {
+    if (dbReady) {
+      loadBooks()
+    }
+  }, [dbReady, filters])
+
+  useEffect(() => {
+    // Keep filters in sync when navigating between bookmarked views
+    const handlePopState = () => {
+      setFilters(filtersFromSearchParams(new URLSearchParams(window.location.search)))
+    }
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const state = window.history.state
+      if (typeof state?.depth === 'number') {
+        // Back or forward to a page visited before
+        historyDepth.current = state.depth
+      } else {
+        // A new entry, opened by navigate or a link
+        historyDepth.current++
+        window.history.replaceState({ ...state, depth: historyDepth.current }, '')
+      }
+      setHash(window.location.hash)
+    }
+    window.history.replaceState({ ...window.history.state, depth: historyDepth.current }, '')
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [])
+
+  useEffect(() => {
+    if (!dbReady || !routeBookId) return
+    // Reloaded after every change so the detail page stays current
+    let cancelled = false
+    getBookById(routeBookId)
+      .then(book => {
+        if (!cancelled) setRouteBook({ id: routeBookId, book })
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load book'))
+    return () => {
+      cancelled = true
+    }
+  }, [dbReady, routeBookId, libraryVersion])
+
   const loadBooks = async () => {
+    const queryId = ++latestQuery.current
     try {
-      const allBooks = await getAllBooks()
-      // Sort by most recently updated first
-      allBooks.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
-      setBooks(allBooks)
+      const matchingBooks = await queryBooks({ ...filters, status: undefined })
+      if (queryId !== latestQuery.current) return
+      setBooks(matchingBooks)
+      setLibraryVersion(version => version + 1)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load books')
     }
   }
 
-  const handleAddBook = async (bookInput: BookInput) => {
+  const handleFiltersChange = (newFilters: BookFilters) => {
+    const search = filtersToSearchParams(newFilters).toString()
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`
+    window.history.replaceState(window.history.state, '', url)
+    setFilters(newFilters)
+  }
+
+  const navigate = (target: Exclude<Route, { name: 'not-found' }>) => {
+    window.location.hash = routeHash(target)
+    window.scrollTo(0, 0)
+  }
+
+  // Return to the page the user came from, or to `fallback` if they opened this one directly
+  const leavePage = (fallback: Exclude<Route, { name: 'not-found' }>) => {
+    if (historyDepth.current > 0) {
+      window.history.back()
+    } else {
+      window.history.replaceState(window.history.state, '', routeHash(fallback))
+      setHash(window.location.hash)
+    }
+  }
+
+  const showLibrary = () => navigate({ name: 'library' })
+
+  const openPanel = (target: Panel) => navigate({ name: 'panel', panel: target })
+
+  const handleStatsNavigate = (newFilters: BookFilters) => {
+    handleFiltersChange(newFilters)
+    showLibrary()
+  }
+
+  const handleShelfSelect = (status?: ReadingStatus) => {
+    handleFiltersChange({ ...filters, status })
+  }
+
+  const handleListPreferencesChange = (preferences: ListPreferences) => {
+    saveListPreferences(preferences)
+    setListPreferences(preferences)
+  }
+
+  const saveCoverChange = async (bookId: string, cover: CoverChange) => {
+    if (cover) {
+      await saveCover(bookId, cover)
+    } else if (cover === null) {
+      await deleteCover(bookId)
+    }
+  }
+
+  const handleAddBook = async (bookInput: BookInput, cover: CoverChange) => {
     try {
-      await addBook(bookInput)
+      const book = await addBook(bookInput)
+      await saveCoverChange(book.id, cover)
       await loadBooks()
-      setShowForm(false)
+      leavePage({ name: 'library' })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to add book')
     }
   }
 
-  const handleUpdateBook = async (bookInput: BookInput) => {
-    if (!editingBook) return
+  const handleUpdateBook = async (bookInput: BookInput, cover: CoverChange) => {
+    if (!currentBook) return
     
     try {
-      await updateBook(editingBook.id, bookInput)
+      await updateBook(currentBook.id, bookInput)
+      await saveCoverChange(currentBook.id, cover)
       await loadBooks()
-      setEditingBook(null)
-      setShowForm(false)
+      leavePage({ name: 'book', id: currentBook.id })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update book')
     }
   }
 
+  const handleRevertBook = async (id: string, changes: Partial<BookInput>) => {
+    try {
+      await updateBook(id, changes)
+      await loadBooks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert book')
+    }
+  }
+
+  const handleBackupImported = () => {
+    loadBooks()
+    // Backups carry shelves, languages, formats and vibe styles too
+    refreshShelves()
+    refreshLibraryOptions()
+    refreshTagStyles()
+  }
+
   const handleDeleteBook = async (id: string) => {
     try {
-      await deleteBook(id)
+      setTrashedBook(await deleteBook(id))
       await loadBooks()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete book')
     }
   }
 
+  const handleDeleteFromDetail = (id: string) => {
+    // Leave first, so the page doesn't show the book as missing
+    leavePage({ name: 'library' })
+    handleDeleteBook(id)
+  }
+
+  const handleUndoDelete = async () => {
+    if (!trashedBook) return
+    setTrashedBook(null)
+    try {
+      await restoreBook(trashedBook.id)
+      await loadBooks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore book')
+    }
+  }
+
+  const dismissUndo = useCallback(() => setTrashedBook(null), [])
+
   const handleEditBook = (book: Book) => {
-    setEditingBook(book)
-    setShowForm(true)
+    navigate({ name: 'edit', id: book.id })
   }
 
   const handleCancelEdit = () => {
-    setEditingBook(null)
-    setShowForm(false)
+    leavePage(route.name === 'edit' ? { name: 'book', id: route.id } : { name: 'library' })
   }
 
   const handleNewBook = () => {
-    setEditingBook(null)
-    setShowForm(true)
+    navigate({ name: 'new' })
   }
 
   if (error) {
@@ -100,42 +309,226 @@ function App() {
 
   return (
     <div className="app">
+      <UpdateBanner />
       <header className="app-header">
         <h1>Book Log</h1>
         <p className="subtitle">Track your reading journey</p>
+        <GoalWidget refreshKey={libraryVersion} />
       </header>
 
       <main className="app-main">
-        {showForm ? (
+        {routeBookId && !currentBook ? (
+          currentBook === null ? (
+            <NotFound
+              message="Book not found"
+              hint="It may have been deleted. Deleted books can be restored from the trash."
+              onBack={showLibrary}
+            />
+          ) : (
+            <div className="loading-container">
+              <p>Loading...</p>
+            </div>
+          )
+        ) : route.name === 'new' || route.name === 'edit' ? (
           <div className="form-container">
-            <h2>{editingBook ? 'Edit Book' : 'Add New Book'}</h2>
+            <h2>{currentBook ? 'Edit Book' : 'Add New Book'}</h2>
             <BookForm
-              book={editingBook || undefined}
-              onSubmit={editingBook ? handleUpdateBook : handleAddBook}
+              book={currentBook || undefined}
+              onSubmit={currentBook ? handleUpdateBook : handleAddBook}
               onCancel={handleCancelEdit}
             />
           </div>
+        ) : route.name === 'book' && currentBook ? (
+          <div className="form-container form-container-wide">
+            <div className="panel-header">
+              <h2>Book details</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <BookCard
+              key={currentBook.id}
+              book={currentBook}
+              expanded
+              onEdit={handleEditBook}
+              onDelete={handleDeleteFromDetail}
+              onRevert={handleRevertBook}
+            />
+          </div>
+        ) : route.name === 'not-found' ? (
+          <NotFound
+            message="Page not found"
+            hint="This link doesn't lead to a page of your library."
+            onBack={showLibrary}
+          />
+        ) : panel === 'backup' ? (
+          <div className="form-container">
+            <div className="panel-header">
+              <h2>Backup &amp; Restore</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <BackupPanel onImported={handleBackupImported} />
+          </div>
+        ) : panel === 'goodreads' ? (
+          <div className="form-container form-container-wide">
+            <div className="panel-header">
+              <h2>Import from Goodreads</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <GoodreadsImport onImported={loadBooks} />
+          </div>
+        ) : panel === 'kindle' ? (
+          <div className="form-container form-container-wide">
+            <div className="panel-header">
+              <h2>Import Kindle highlights</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <KindleImport onImported={loadBooks} />
+          </div>
+        ) : panel === 'stats' ? (
+          <div className="form-container form-container-wide">
+            <div className="panel-header">
+              <h2>Statistics</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <StatsDashboard onNavigate={handleStatsNavigate} />
+          </div>
+        ) : panel === 'series' ? (
+          <div className="form-container form-container-wide">
+            <div className="panel-header">
+              <h2>Series</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <SeriesView onEdit={handleEditBook} />
+          </div>
+        ) : panel === 'tags' ? (
+          <div className="form-container">
+            <div className="panel-header">
+              <h2>Manage vibes</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <TagManager onChanged={loadBooks} />
+          </div>
+        ) : panel === 'options' ? (
+          <div className="form-container">
+            <div className="panel-header">
+              <h2>Languages &amp; formats</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <LibraryOptionsEditor />
+          </div>
+        ) : panel === 'trash' ? (
+          <div className="form-container">
+            <div className="panel-header">
+              <h2>Trash</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <TrashView onRestored={loadBooks} />
+          </div>
+        ) : panel === 'sync' ? (
+          <div className="form-container">
+            <div className="panel-header">
+              <h2>Sync</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <SyncPanel onSynced={loadBooks} />
+          </div>
+        ) : panel === 'quotes' ? (
+          <div className="form-container">
+            <div className="panel-header">
+              <h2>Quotes</h2>
+              <button onClick={showLibrary} className="btn btn-secondary btn-sm">
+                Back to books
+              </button>
+            </div>
+            <QuotesBrowser />
+          </div>
         ) : (
           <>
             <div className="actions-bar">
+              <CsvExport books={sortedBooks} />
+              <button onClick={() => openPanel('series')} className="btn btn-secondary btn-large">
+                Series
+              </button>
+              <button onClick={() => openPanel('tags')} className="btn btn-secondary btn-large">
+                Vibes
+              </button>
+              <button onClick={() => openPanel('options')} className="btn btn-secondary btn-large">
+                Languages &amp; formats
+              </button>
+              <button onClick={() => openPanel('stats')} className="btn btn-secondary btn-large">
+                Statistics
+              </button>
+              <button onClick={() => openPanel('quotes')} className="btn btn-secondary btn-large">
+                Quotes
+              </button>
+              <button onClick={() => openPanel('sync')} className="btn btn-secondary btn-large">
+                Sync
+              </button>
+              <button onClick={() => openPanel('trash')} className="btn btn-secondary btn-large">
+                Trash
+              </button>
+              <button onClick={() => openPanel('backup')} className="btn btn-secondary btn-large">
+                Backup &amp; Restore
+              </button>
+              <button onClick={() => openPanel('goodreads')} className="btn btn-secondary btn-large">
+                Import from Goodreads
+              </button>
+              <button onClick={() => openPanel('kindle')} className="btn btn-secondary btn-large">
+                Import from Kindle
+              </button>
               <button onClick={handleNewBook} className="btn btn-primary btn-large">
                 + Add Book
               </button>
             </div>
-            <BookScrollList
-              books={books}
-              onEdit={handleEditBook}
-              onDelete={handleDeleteBook}
-              title="Your Reading Collection"
-            />
+            <RandomQuote refreshKey={libraryVersion} onBrowse={() => openPanel('quotes')} />
+            <FilterBar filters={filters} onChange={handleFiltersChange} resultCount={books.length} />
+            <StatusShelves books={books} selected={filters.status} onSelect={handleShelfSelect} />
+            <ShelfRows books={books} onEdit={handleEditBook} onDelete={handleDeleteBook} onRevert={handleRevertBook} />
+            <SortControls preferences={listPreferences} onChange={handleListPreferencesChange} />
             <BookList
-              books={books}
+              books={sortedBooks}
+              groups={bookGroups}
               onEdit={handleEditBook}
               onDelete={handleDeleteBook}
+              onRevert={handleRevertBook}
+              emptyMessage={
+                books.length > 0
+                  ? 'No books on this shelf.'
+                  : hasActiveFilters(filters)
+                    ? 'No books match these filters.'
+                    : undefined
+              }
             />
           </>
         )}
       </main>
+
+      {trashedBook && (
+        <UndoToast
+          message={`"${trashedBook.title}" moved to trash`}
+          onUndo={handleUndoDelete}
+          onDismiss={dismissUndo}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import type { LibraryBackup, BackupConflict, ImportMode, ImportResult } from '../types/backup';
+import { exportLibrary, importLibrary, getAllBooks } from '../db/indexedDB';
+import { serializeBackup, parseBackup, findConflicts } from '../utils/backup';
+import { downloadFile, datedFilename } from '../utils/download';
+
+interface BackupPanelProps {
+  onImported: () => void;
+}
+
+export function BackupPanel({ onImported }: BackupPanelProps) {
+  const [backup, setBackup] = useState<LibraryBackup | null>(null);
+  const [conflicts, setConflicts] = useState<BackupConflict[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [includeCovers, setIncludeCovers] = useState(true);
+
+  const handleExport = async () => {
+    setError(null);
+    try {
+      const data = await exportLibrary({ includeCovers });
+      downloadFile(serializeBackup(data), datedFilename('book-log-backup', 'json'), 'application/json');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export library');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setResult(null);
+    setBackup(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      const existingBooks = await getAllBooks();
+      setBackup(parsed);
+      setConflicts(findConflicts(parsed, existingBooks));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read backup');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+    if (
+      mode === 'replace' &&
+      !window.confirm('Replace your entire library with this backup? Books not in the backup will be removed.')
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    try {
+      const importResult = await importLibrary(backup, mode);
+      setResult(importResult);
+      setBackup(null);
+      setConflicts([]);
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="backup-panel">
+      <section className="backup-section">
+        <h3>Export</h3>
+        <p className="backup-hint">
+          Download every book and vibe as a JSON file you can restore later or in another browser.
+        </p>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={includeCovers}
+            onChange={(e) => setIncludeCovers(e.target.checked)}
+          />
+          Include cover images (makes the file considerably larger)
+        </label>
+        <button type="button" onClick={handleExport} className="btn btn-primary">
+          Download backup
+        </button>
+      </section>
+
+      <section className="backup-section">
+        <h3>Restore</h3>
+        <p className="backup-hint">Choose a backup file previously exported from Book Log.</p>
+        <input type="file" accept="application/json,.json" onChange={handleFileChange} />
+
+        {error && <p className="error-message">{error}</p>}
+
+        {result && (
+          <p className="backup-result">
+            Restore complete: {result.added} added, {result.updated} updated, {result.skipped} kept as-is.
+          </p>
+        )}
+
+        {backup && (
+          <div className="backup-preview">
+            <p>
+              The backup contains <strong>{backup.books.length}</strong> books and{' '}
+              <strong>{backup.usedTags.length}</strong> vibes
+              {backup.covers && <>, with {backup.covers.length} cover images</>}
+              {backup.exportedAt && <> exported {new Date(backup.exportedAt).toLocaleString()}</>}.
+            </p>
+
+            {conflicts.length > 0 ? (
+              <div className="backup-conflicts">
+                <p>
+                  <strong>{conflicts.length}</strong> of them already exist in your library:
+                </p>
+                <ul>
+                  {conflicts.map(conflict => (
+                    <li key={conflict.id}>
+                      {conflict.title}{' '}
+                      <span className="backup-conflict-dates">
+                        (yours: {conflict.existingUpdatedAt.toLocaleDateString()}, backup:{' '}
+                        {conflict.backupUpdatedAt.toLocaleDateString()})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p>None of these books exist in your library yet.</p>
+            )}
+
+            <div className="backup-modes">
+              <label className="checkbox-label">
+                <input
+                  type="radio"
+                  name="importMode"
+                  value="merge"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                />
+                Merge — add new books and keep the most recently updated copy of conflicts
+              </label>
+              <label className="checkbox-label">
+                <input
+                  type="radio"
+                  name="importMode"
+                  value="replace"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                />
+                Replace — remove the current library and restore only the backup
+              </label>
+            </div>
+
+            <div className="form-actions">
+              <button type="button" onClick={handleImport} className="btn btn-primary" disabled={busy}>
+                {busy ? 'Restoring...' : 'Restore backup'}
+              </button>
+              <button type="button" onClick={() => setBackup(null)} className="btn btn-secondary">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import type { StatDatum } from '../utils/stats';
+
+interface BarChartProps {
+  data: StatDatum[];
+  onSelect?: (datum: StatDatum) => void;
+  formatValue?: (datum: StatDatum) => string;
+  maxValue?: number; // Defaults to the largest value in the data
+}
+
+const WIDTH = 600;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 150;
+const VALUE_WIDTH = 70;
+const BAR_HEIGHT = 18;
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Horizontal bar chart drawn with plain SVG
+ */
+export function BarChart({ data, onSelect, formatValue = datum => String(datum.value), maxValue }: BarChartProps) {
+  if (data.length === 0) {
+    return <p className="chart-empty">Not enough data yet.</p>;
+  }
+
+  const max = maxValue ?? Math.max(...data.map(datum => datum.value), 1);
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+  const height = data.length * ROW_HEIGHT;
+
+  const handleKeyDown = (e: React.KeyboardEvent, datum: StatDatum) => {
+    if (onSelect && (e.key === 'Enter' || e.key === ' ')) {
+      e.preventDefault();
+      onSelect(datum);
+    }
+  };
+
+  return (
+    <svg
+      className="bar-chart"
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      width="100%"
+      role="list"
+      preserveAspectRatio="xMinYMin meet"
+    >
+      {data.map((datum, index) => {
+        const y = index * ROW_HEIGHT;
+        const barWidth = max > 0 ? Math.max((datum.value / max) * barSpace, datum.value > 0 ? 2 : 0) : 0;
+        return (
+          <g
+            key={datum.key}
+            role="listitem"
+            className={onSelect ? 'bar-chart-row clickable' : 'bar-chart-row'}
+            tabIndex={onSelect ? 0 : undefined}
+            onClick={onSelect ? () => onSelect(datum) : undefined}
+            onKeyDown={(e) => handleKeyDown(e, datum)}
+          >
+            <title>{`${datum.label}: ${formatValue(datum)}`}</title>
+            <rect x={0} y={y} width={WIDTH} height={ROW_HEIGHT} className="bar-chart-hit" />
+            <text x={LABEL_WIDTH - 8} y={y + ROW_HEIGHT / 2} className="bar-chart-label" textAnchor="end" dominantBaseline="middle">
+              {truncate(datum.label, 22)}
+            </text>
+            <rect
+              x={LABEL_WIDTH}
+              y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+              width={barWidth}
+              height={BAR_HEIGHT}
+              rx={3}
+              className="bar-chart-bar"
+            />
+            <text x={LABEL_WIDTH + barWidth + 6} y={y + ROW_HEIGHT / 2} className="bar-chart-value" dominantBaseline="middle">
+              {formatValue(datum)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -1,13 +1,40 @@
-import type { Book } from '../types/book';
+import { useState, useEffect } from 'react';
+import type { Book, BookInput } from '../types/book';
+import { getStatusLabel, RATED_STATUSES } from '../types/book';
+import { readingDays, formatDuration } from '../utils/dates';
+import { routeHash } from '../utils/routes';
+import { getBadgeStyle, isHexColor } from '../utils/tagStyles';
+import { BookHistory } from './BookHistory';
+import { BookProgress } from './BookProgress';
+import { BookQuotes } from './BookQuotes';
+import { CoverImage } from './CoverImage';
+import { Markdown } from './Markdown';
+import { ShelfMenu } from './ShelfMenu';
+import { VibeBadge } from './VibeBadge';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+// Notes longer than this are collapsed until expanded
+const LONG_NOTES_LENGTH = 300;
+const LONG_NOTES_LINES = 6;
 
 interface BookCardProps {
   book: Book;
   onEdit: (book: Book) => void;
   onDelete: (id: string) => void;
+  onRevert: (id: string, changes: Partial<BookInput>) => void;
+  expanded?: boolean; // On the book's own page: notes, quotes and history start open
 }
 
-export function BookCard({ book, onEdit, onDelete }: BookCardProps) {
-  const formatBadgeClass = `format-badge format-${book.format.toLowerCase().replace('-', '')}`;
+export function BookCard({ book, onEdit, onDelete, onRevert, expanded = false }: BookCardProps) {
+  const [showHistory, setShowHistory] = useState(expanded);
+  const [showQuotes, setShowQuotes] = useState(expanded);
+  const [notesExpanded, setNotesExpanded] = useState(expanded);
+  // Logged sessions change pages read before the list reloads
+  const [pagesRead, setPagesRead] = useState(book.pagesRead);
+  const { formats, languageName } = useLibraryOptions();
+  const format = formats.find(option => option.id === book.format);
+  const longNotes =
+    Boolean(book.notes) && (book.notes.length > LONG_NOTES_LENGTH || book.notes.split('\n').length > LONG_NOTES_LINES);
   
   // Ensure vibes is always an array
   const vibes = Array.isArray(book.vibes) ? book.vibes : [];
@@ -18,52 +45,49 @@ export function BookCard({ book, onEdit, onDelete }: BookCardProps) {
     return 'rating-low';
   };
 
-  const getVibeColorClass = (vibe: string): string => {
-    const vibeMap: Record<string, string> = {
-      'Bloody Mystery': 'vibe-bloody',
-      'Cozy Mystery': 'vibe-cozy',
-      'Thriller': 'vibe-thriller',
-      'Romance': 'vibe-romance',
-      'Sci-Fi': 'vibe-scifi',
-      'Fantasy': 'vibe-fantasy',
-      'Historical Fiction': 'vibe-historical',
-      'Dystopia': 'vibe-dystopia',
-      'Comedy': 'vibe-comedy',
-      'Drama': 'vibe-drama',
-      'Mystery': 'vibe-mystery',
-      'Horror': 'vibe-horror',
-      'Biography': 'vibe-biography',
-      'Self-Help': 'vibe-selfhelp',
-      'Philosophy': 'vibe-philosophy',
-    };
-    // Try exact match first, then case-insensitive match
-    if (vibeMap[vibe]) {
-      return vibeMap[vibe];
+  const getReadingPeriod = (): string | null => {
+    if (book.startedAt && book.finishedAt) {
+      return `Read in ${formatDuration(readingDays(book.startedAt, book.finishedAt))}`;
     }
-    const lowerVibe = vibe.toLowerCase();
-    const matchedKey = Object.keys(vibeMap).find(key => key.toLowerCase() === lowerVibe);
-    return matchedKey ? vibeMap[matchedKey] : 'vibe-default';
-  };
-
-  const handleDelete = () => {
-    if (window.confirm(`Are you sure you want to delete "${book.title}"?`)) {
-      onDelete(book.id);
+    if (book.finishedAt) {
+      return `Finished ${book.finishedAt.toLocaleDateString()}`;
     }
+    if (book.startedAt) {
+      return `Started ${book.startedAt.toLocaleDateString()}`;
+    }
+    return null;
   };
 
+  const readingPeriod = getReadingPeriod();
+
+  useEffect(() => {
+    setPagesRead(book.pagesRead);
+  }, [book.pagesRead]);
+
   return (
-    <div className="book-card">
+    <div className={expanded ? 'book-card book-card-expanded' : 'book-card'}>
+      <CoverImage book={book} />
       <div className="book-card-header">
-        <h3 className="book-title">{book.title}</h3>
-        <div className="book-rating">
-          <span className={`rating-value ${getRatingColor(book.rating)}`}>
-            {book.rating}/10
-          </span>
-        </div>
+        <h3 className="book-title">
+          {expanded ? book.title : <a href={routeHash({ name: 'book', id: book.id })}>{book.title}</a>}
+        </h3>
+        {book.rating !== undefined && RATED_STATUSES.includes(book.status) && (
+          <div className="book-rating">
+            <span className={`rating-value ${getRatingColor(book.rating)}`}>
+              {book.rating}/10
+            </span>
+          </div>
+        )}
       </div>
       
       <div className="book-card-body">
         <p className="book-author">by {book.author}</p>
+        {book.series && (
+          <p className="book-series">
+            {book.series}
+            {book.seriesPosition !== undefined && ` #${book.seriesPosition}`}
+          </p>
+        )}
         
         <div className="book-meta">
           {book.genre && (
@@ -74,41 +98,76 @@ export function BookCard({ book, onEdit, onDelete }: BookCardProps) {
           {book.pages > 0 && (
             <span className="meta-item">
               <span className="meta-label">Pages:</span>{' '}
-              {book.didNotFinish && book.pagesRead !== undefined
-                ? `${book.pagesRead}/${book.pages}`
+              {book.status !== 'finished' && pagesRead !== undefined
+                ? `${pagesRead}/${book.pages}`
                 : book.pages}
             </span>
           )}
           <span className="meta-item">
-            <span className="meta-label">Language:</span> {book.language}
+            <span className="meta-label">Language:</span> {languageName(book.language)}
           </span>
+          {readingPeriod && (
+            <span
+              className="meta-item"
+              title={[
+                book.startedAt && `Started ${book.startedAt.toLocaleDateString()}`,
+                book.finishedAt && `Finished ${book.finishedAt.toLocaleDateString()}`
+              ].filter(Boolean).join(' · ')}
+            >
+              {readingPeriod}
+            </span>
+          )}
         </div>
 
         <div className="book-badges">
-          <span className={formatBadgeClass}>{book.format}</span>
-          {book.didNotFinish && (
-            <span className="vibe-badge vibe-default">Did not finish</span>
+          <span
+            className="format-badge"
+            style={format?.color && isHexColor(format.color) ? getBadgeStyle(format.color) : undefined}
+          >
+            {format?.name || book.format}
+          </span>
+          {book.status !== 'finished' && (
+            <span className={`status-badge status-${book.status}`}>{getStatusLabel(book.status)}</span>
           )}
           {vibes.length > 0 && vibes.map((vibe, index) => (
-            <span key={index} className={`vibe-badge ${getVibeColorClass(vibe)}`}>
-              {vibe}
-            </span>
+            <VibeBadge key={index} tag={vibe} />
           ))}
         </div>
 
+        {(book.status === 'reading' || book.status === 'paused') && <BookProgress book={{ ...book, pagesRead }} onPagesReadChange={setPagesRead} />}
+
         {book.notes && (
           <div className="book-notes">
             <p className="notes-label">Notes:</p>
-            <p className="notes-content">{book.notes}</p>
+            <Markdown
+              text={book.notes}
+              className={`notes-content ${longNotes && !notesExpanded ? 'notes-collapsed' : ''}`}
+            />
+            {longNotes && (
+              <button type="button" onClick={() => setNotesExpanded(!notesExpanded)} className="notes-toggle">
+                {notesExpanded ? 'Show less' : 'Show more'}
+              </button>
+            )}
           </div>
         )}
+
+        {showQuotes && <BookQuotes book={book} />}
+
+        {showHistory && <BookHistory book={book} onRevert={onRevert} />}
       </div>
 
       <div className="book-card-actions">
         <button onClick={() => onEdit(book)} className="btn btn-sm btn-primary">
           Edit
         </button>
-        <button onClick={handleDelete} className="btn btn-sm btn-danger">
+        <ShelfMenu bookId={book.id} />
+        <button onClick={() => setShowQuotes(!showQuotes)} className="btn btn-sm btn-secondary">
+          {showQuotes ? 'Hide quotes' : 'Quotes'}
+        </button>
+        <button onClick={() => setShowHistory(!showHistory)} className="btn btn-sm btn-secondary">
+          {showHistory ? 'Hide history' : 'History'}
+        </button>
+        <button onClick={() => onDelete(book.id)} className="btn btn-sm btn-danger">
           Delete
         </button>
       </div>
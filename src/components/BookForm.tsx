@@ -1,48 +1,89 @@
-import { useState, useEffect } from 'react';
-import type { Book, BookInput, Language, Format } from '../types/book';
-import { getAllUsedTags } from '../db/indexedDB';
+import { useState, useEffect, useRef } from 'react';
+import type { Book, BookInput, ReadingStatus } from '../types/book';
+import type { CoverChange } from '../types/cover';
+import type { BookMetadata } from '../types/metadata';
+import { READING_STATUSES, RATED_STATUSES, IN_PROGRESS_STATUSES } from '../types/book';
+import { getAllUsedTags, getAllSeriesNames } from '../db/indexedDB';
+import { validateBookInput, type BookInputErrors } from '../utils/validation';
+import { toDateInputValue, fromDateInputValue, today } from '../utils/dates';
+import { toISBN13, toISBN10 } from '../utils/isbn';
+import { mergeMetadata, METADATA_FIELD_LABELS } from '../utils/metadata';
+import { metadataProvider } from '../utils/openLibrary';
 import { TagsInput } from './TagsInput';
+import { SuggestInput } from './SuggestInput';
+import { CoverInput } from './CoverInput';
+import { Markdown } from './Markdown';
+import { useLibraryOptions } from './LibraryOptionsContext';
 
 interface BookFormProps {
   book?: Book;
-  onSubmit: (book: BookInput) => void;
+  onSubmit: (book: BookInput, cover: CoverChange) => void;
   onCancel?: () => void;
 }
 
+// Prefer the value new books used to default to, if it's still configured
+function pickDefault(values: string[], preferred: string): string {
+  return values.includes(preferred) ? preferred : values[0] || preferred;
+}
+
 export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
+  const { languages, formats, languageName, formatName } = useLibraryOptions();
+  const defaultLanguage = pickDefault(languages.map(option => option.code), 'en');
+  const defaultFormat = pickDefault(formats.map(option => option.id), 'physical');
+
   const [formData, setFormData] = useState<BookInput>({
     title: '',
     author: '',
+    isbn: undefined,
     genre: '',
     pages: 0,
-    language: 'English',
-    format: 'Physical',
+    language: defaultLanguage,
+    format: defaultFormat,
     vibes: [],
+    status: 'finished',
     rating: 5,
     notes: '',
-    didNotFinish: false,
-    pagesRead: undefined
+    pagesRead: undefined,
+    startedAt: undefined,
+    finishedAt: undefined,
+    series: undefined,
+    seriesPosition: undefined
   });
 
   const [usedTags, setUsedTags] = useState<string[]>([]);
-  const [errors, setErrors] = useState<Partial<Record<keyof BookInput, string>>>({});
+  const [seriesNames, setSeriesNames] = useState<string[]>([]);
+  const [errors, setErrors] = useState<BookInputErrors>({});
+  const [cover, setCover] = useState<CoverChange>(undefined);
+  const [lookingUp, setLookingUp] = useState(false);
+  const [lookupMessage, setLookupMessage] = useState<string | null>(null);
+  const [previewNotes, setPreviewNotes] = useState(false);
+
+  // Lookups are async, so read the latest form values through a ref
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
 
   useEffect(() => {
     if (book) {
       setFormData({
         title: book.title,
         author: book.author,
+        isbn: book.isbn,
         genre: book.genre,
         pages: book.pages,
         language: book.language,
         format: book.format,
         vibes: book.vibes || [],
+        status: book.status,
         rating: book.rating,
         notes: book.notes,
-        didNotFinish: book.didNotFinish || false,
-        pagesRead: book.pagesRead
+        pagesRead: book.pagesRead,
+        startedAt: book.startedAt,
+        finishedAt: book.finishedAt,
+        series: book.series,
+        seriesPosition: book.seriesPosition
       });
     }
+    setCover(undefined);
   }, [book]);
 
   useEffect(() => {
@@ -50,37 +91,14 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
     getAllUsedTags()
       .then(tags => setUsedTags(tags))
       .catch(error => console.warn('Failed to load used tags:', error));
+
+    getAllSeriesNames()
+      .then(names => setSeriesNames(names))
+      .catch(error => console.warn('Failed to load series names:', error));
   }, []);
 
   const validate = (): boolean => {
-    const newErrors: Partial<Record<keyof BookInput, string>> = {};
-
-    if (!formData.title.trim()) {
-      newErrors.title = 'Title is required';
-    }
-
-    if (!formData.author.trim()) {
-      newErrors.author = 'Author is required';
-    }
-
-    if (formData.pages < 0) {
-      newErrors.pages = 'Pages must be a positive number';
-    }
-
-    if (formData.rating < 1 || formData.rating > 10) {
-      newErrors.rating = 'Rating must be between 1 and 10';
-    }
-
-    if (formData.didNotFinish) {
-      if (formData.pagesRead === undefined || formData.pagesRead === null) {
-        newErrors.pagesRead = 'Pages read is required when "Did not finish" is checked';
-      } else if (formData.pagesRead < 0) {
-        newErrors.pagesRead = 'Pages read must be a positive number';
-      } else if (formData.pagesRead > formData.pages) {
-        newErrors.pagesRead = 'Pages read cannot exceed total pages';
-      }
-    }
-
+    const newErrors = validateBookInput(formData);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -88,21 +106,35 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (validate()) {
-      onSubmit(formData);
+      onSubmit(
+        {
+          ...formData,
+          isbn: formData.isbn ? toISBN13(formData.isbn)! : undefined,
+          rating: RATED_STATUSES.includes(formData.status) ? formData.rating : undefined,
+          series: formData.series?.trim() || undefined
+        },
+        cover
+      );
       // Reset form if not editing
       if (!book) {
+        setCover(undefined);
         setFormData({
           title: '',
           author: '',
+          isbn: undefined,
           genre: '',
           pages: 0,
-          language: 'English',
-          format: 'Physical',
+          language: defaultLanguage,
+          format: defaultFormat,
           vibes: [],
+          status: 'finished',
           rating: 5,
           notes: '',
-          didNotFinish: false,
-          pagesRead: undefined
+          pagesRead: undefined,
+          startedAt: undefined,
+          finishedAt: undefined,
+          series: undefined,
+          seriesPosition: undefined
         });
       }
     }
@@ -111,25 +143,46 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
   ) => {
-    const { name, value, type } = e.target;
-    const checked = (e.target as HTMLInputElement).checked;
+    const { name, value } = e.target;
     
     setFormData(prev => {
-      const newData = { ...prev };
+      const newData: BookInput = { ...prev };
       
-      if (type === 'checkbox') {
-        newData[name as keyof BookInput] = checked as any;
-        // Clear pagesRead when unchecking didNotFinish
-        if (name === 'didNotFinish' && !checked) {
+      if (name === 'status') {
+        const status = value as ReadingStatus;
+        newData.status = status;
+        // Pages read only applies while a book is in progress or abandoned
+        if (!IN_PROGRESS_STATUSES.includes(status)) {
           newData.pagesRead = undefined;
         }
-      } else if (name === 'pagesRead') {
-        // Handle empty string for pagesRead - set to undefined instead of 0
-        newData.pagesRead = value === '' ? undefined : Number(value);
-      } else if (name === 'pages' || name === 'rating') {
-        newData[name as keyof BookInput] = Number(value) as any;
-      } else {
-        newData[name as keyof BookInput] = value as any;
+        // Only finished and abandoned books are rated
+        if (!RATED_STATUSES.includes(status)) {
+          newData.rating = undefined;
+        }
+        // Default the dates to today when starting or finishing a book
+        if (status === 'reading' && !newData.startedAt) {
+          newData.startedAt = today();
+        }
+        if (RATED_STATUSES.includes(status) && !newData.finishedAt) {
+          newData.finishedAt = today();
+        }
+      } else if (name === 'startedAt' || name === 'finishedAt') {
+        newData[name] = fromDateInputValue(value);
+      } else if (name === 'pagesRead' || name === 'rating' || name === 'seriesPosition') {
+        // Handle empty string - set to undefined instead of 0
+        newData[name] = value === '' ? undefined : Number(value);
+      } else if (name === 'pages') {
+        newData.pages = Number(value);
+      } else if (
+        name === 'title' ||
+        name === 'author' ||
+        name === 'isbn' ||
+        name === 'genre' ||
+        name === 'language' ||
+        name === 'format' ||
+        name === 'notes'
+      ) {
+        newData[name] = value;
       }
       
       return newData;
@@ -145,6 +198,88 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
     }
   };
 
+  const handleSeriesChange = (series: string) => {
+    setFormData(prev => ({
+      ...prev,
+      series: series || undefined
+    }));
+    if (errors.series) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors.series;
+        return newErrors;
+      });
+    }
+  };
+
+  const handleISBNBlur = () => {
+    const isbn13 = formData.isbn ? toISBN13(formData.isbn) : null;
+    if (isbn13) {
+      setFormData(prev => ({ ...prev, isbn: isbn13 }));
+    }
+  };
+
+  // The language select always has a value, so it only counts as entered
+  // when editing or when changed from the default
+  const isFieldFilled = (input: BookInput, field: keyof BookMetadata): boolean => {
+    switch (field) {
+      case 'title':
+      case 'author':
+        return input[field].trim() !== '';
+      case 'pages':
+        return input.pages > 0;
+      case 'language':
+        return !!book || input.language !== defaultLanguage;
+    }
+  };
+
+  const handleLookup = async () => {
+    const isbn13 = formData.isbn ? toISBN13(formData.isbn) : null;
+    if (!isbn13) {
+      setErrors(prev => ({ ...prev, isbn: 'Enter a valid ISBN to look it up' }));
+      return;
+    }
+
+    setLookingUp(true);
+    setLookupMessage(null);
+    try {
+      const metadata = await metadataProvider.lookupISBN(isbn13);
+      if (!metadata) {
+        setLookupMessage(`${metadataProvider.name} has no details for ISBN ${isbn13}.`);
+        return;
+      }
+
+      // Only fill in languages that are configured
+      if (metadata.language && !languages.some(option => option.code === metadata.language)) {
+        delete metadata.language;
+      }
+
+      const current = formDataRef.current;
+      const { changes, conflicts } = mergeMetadata(current, metadata, field => isFieldFilled(current, field));
+      if (
+        conflicts.length > 0 &&
+        !window.confirm(
+          `Replace the ${conflicts.map(field => METADATA_FIELD_LABELS[field]).join(', ')} you entered ` +
+            `with the details from ${metadataProvider.name}?`
+        )
+      ) {
+        conflicts.forEach(field => delete changes[field]);
+      }
+
+      const filled = Object.keys(changes) as (keyof BookMetadata)[];
+      setFormData(prev => ({ ...prev, ...changes }));
+      setLookupMessage(
+        filled.length > 0
+          ? `Filled in ${filled.map(field => METADATA_FIELD_LABELS[field]).join(', ')} from ${metadataProvider.name}.`
+          : 'Nothing to fill in.'
+      );
+    } catch (error) {
+      setLookupMessage(error instanceof Error ? error.message : 'Lookup failed');
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
   const handleTagsChange = (tags: string[]) => {
     setFormData(prev => ({
       ...prev,
@@ -154,6 +289,35 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
 
   return (
     <form onSubmit={handleSubmit} className="book-form">
+      <div className="form-group">
+        <label htmlFor="isbn">ISBN</label>
+        <div className="isbn-input">
+          <input
+            type="text"
+            id="isbn"
+            name="isbn"
+            value={formData.isbn || ''}
+            onChange={handleChange}
+            onBlur={handleISBNBlur}
+            placeholder="ISBN-10 or ISBN-13"
+            className={errors.isbn ? 'error' : ''}
+          />
+          <button
+            type="button"
+            onClick={handleLookup}
+            className="btn btn-sm btn-secondary"
+            disabled={lookingUp || !formData.isbn}
+          >
+            {lookingUp ? 'Looking up...' : 'Fill from ISBN'}
+          </button>
+        </div>
+        {errors.isbn && <span className="error-message">{errors.isbn}</span>}
+        {!errors.isbn && formData.isbn && toISBN10(formData.isbn) && (
+          <span className="isbn-hint">ISBN-10: {toISBN10(formData.isbn)}</span>
+        )}
+        {lookupMessage && <span className="isbn-hint">{lookupMessage}</span>}
+      </div>
+
       <div className="form-group">
         <label htmlFor="title">
           Title <span className="required">*</span>
@@ -184,6 +348,22 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
         {errors.author && <span className="error-message">{errors.author}</span>}
       </div>
 
+      <div className="form-group">
+        <label htmlFor="status">Status</label>
+        <select
+          id="status"
+          name="status"
+          value={formData.status}
+          onChange={handleChange}
+        >
+          {READING_STATUSES.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
       <div className="form-group">
         <label htmlFor="genre">Genre</label>
         <input
@@ -195,6 +375,37 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
         />
       </div>
 
+      <div className="form-row">
+        <div className="form-group form-group-wide">
+          <label htmlFor="series">Series</label>
+          <SuggestInput
+            id="series"
+            name="series"
+            value={formData.series || ''}
+            onChange={handleSeriesChange}
+            suggestions={seriesNames}
+            placeholder="e.g. Millennium"
+            className={errors.series ? 'error' : ''}
+          />
+          {errors.series && <span className="error-message">{errors.series}</span>}
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="seriesPosition">Book # in series</label>
+          <input
+            type="number"
+            id="seriesPosition"
+            name="seriesPosition"
+            value={formData.seriesPosition ?? ''}
+            onChange={handleChange}
+            min="0"
+            step="any"
+            className={errors.seriesPosition ? 'error' : ''}
+          />
+          {errors.seriesPosition && <span className="error-message">{errors.seriesPosition}</span>}
+        </div>
+      </div>
+
       <div className="form-row">
         <div className="form-group">
           <label htmlFor="pages">Number of Pages</label>
@@ -218,8 +429,14 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
             value={formData.language}
             onChange={handleChange}
           >
-            <option value="English">English</option>
-            <option value="Swedish">Swedish</option>
+            {languages.map(option => (
+              <option key={option.code} value={option.code}>
+                {option.name}
+              </option>
+            ))}
+            {!languages.some(option => option.code === formData.language) && (
+              <option value={formData.language}>{languageName(formData.language)}</option>
+            )}
           </select>
         </div>
 
@@ -231,59 +448,82 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
             value={formData.format}
             onChange={handleChange}
           >
-            <option value="E-book">E-book</option>
-            <option value="Physical">Physical</option>
-            <option value="Audio">Audio</option>
+            {formats.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+            {!formats.some(option => option.id === formData.format) && (
+              <option value={formData.format}>{formatName(formData.format)}</option>
+            )}
           </select>
         </div>
 
+        {RATED_STATUSES.includes(formData.status) && (
+          <div className="form-group">
+            <label htmlFor="rating">
+              Rating (1-10) <span className="required">*</span>
+            </label>
+            <input
+              type="number"
+              id="rating"
+              name="rating"
+              value={formData.rating ?? ''}
+              onChange={handleChange}
+              min="1"
+              max="10"
+              className={errors.rating ? 'error' : ''}
+            />
+            {errors.rating && <span className="error-message">{errors.rating}</span>}
+          </div>
+        )}
+      </div>
+
+      {IN_PROGRESS_STATUSES.includes(formData.status) && (
         <div className="form-group">
-          <label htmlFor="rating">
-            Rating (1-10) <span className="required">*</span>
+          <label htmlFor="pagesRead">
+            Pages Read {formData.status === 'did-not-finish' && <span className="required">*</span>}
           </label>
           <input
             type="number"
-            id="rating"
-            name="rating"
-            value={formData.rating}
+            id="pagesRead"
+            name="pagesRead"
+            value={formData.pagesRead ?? ''}
             onChange={handleChange}
-            min="1"
-            max="10"
-            className={errors.rating ? 'error' : ''}
+            min="0"
+            max={formData.pages}
+            className={errors.pagesRead ? 'error' : ''}
           />
-          {errors.rating && <span className="error-message">{errors.rating}</span>}
+          {errors.pagesRead && <span className="error-message">{errors.pagesRead}</span>}
         </div>
-      </div>
+      )}
 
-      <div className="form-group">
-        <label htmlFor="didNotFinish" className="checkbox-label">
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="startedAt">Started</label>
           <input
-            type="checkbox"
-            id="didNotFinish"
-            name="didNotFinish"
-            checked={formData.didNotFinish || false}
+            type="date"
+            id="startedAt"
+            name="startedAt"
+            value={toDateInputValue(formData.startedAt)}
             onChange={handleChange}
           />
-          Did not finish
-        </label>
-      </div>
+        </div>
 
-      {formData.didNotFinish && (
         <div className="form-group">
-          <label htmlFor="pagesRead">Pages Read</label>
+          <label htmlFor="finishedAt">Finished</label>
           <input
-            type="number"
-            id="pagesRead"
-            name="pagesRead"
-            value={formData.pagesRead ?? ''}
+            type="date"
+            id="finishedAt"
+            name="finishedAt"
+            value={toDateInputValue(formData.finishedAt)}
             onChange={handleChange}
-            min="0"
-            max={formData.pages}
-            className={errors.pagesRead ? 'error' : ''}
+            min={toDateInputValue(formData.startedAt) || undefined}
+            className={errors.finishedAt ? 'error' : ''}
           />
-          {errors.pagesRead && <span className="error-message">{errors.pagesRead}</span>}
+          {errors.finishedAt && <span className="error-message">{errors.finishedAt}</span>}
         </div>
-      )}
+      </div>
 
       <div className="form-group">
         <label>Vibes</label>
@@ -296,14 +536,49 @@ export function BookForm({ book, onSubmit, onCancel }: BookFormProps) {
       </div>
 
       <div className="form-group">
-        <label htmlFor="notes">Notes</label>
-        <textarea
-          id="notes"
-          name="notes"
-          value={formData.notes}
-          onChange={handleChange}
-          rows={4}
-        />
+        <label>Cover</label>
+        <CoverInput bookId={book?.id} value={cover} onChange={setCover} />
+      </div>
+
+      <div className="form-group">
+        <div className="notes-editor-header">
+          <label htmlFor="notes">Notes</label>
+          <div className="notes-editor-tabs">
+            <button
+              type="button"
+              className={`filter-chip ${previewNotes ? '' : 'active'}`}
+              onClick={() => setPreviewNotes(false)}
+            >
+              Write
+            </button>
+            <button
+              type="button"
+              className={`filter-chip ${previewNotes ? 'active' : ''}`}
+              onClick={() => setPreviewNotes(true)}
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+        {previewNotes ? (
+          formData.notes.trim() ? (
+            <Markdown text={formData.notes} className="notes-preview" />
+          ) : (
+            <p className="notes-preview notes-preview-empty">Nothing to preview.</p>
+          )
+        ) : (
+          <textarea
+            id="notes"
+            name="notes"
+            value={formData.notes}
+            onChange={handleChange}
+            rows={6}
+          />
+        )}
+        <span className="notes-hint">
+          Markdown: # heading, **bold**, *italic*, - list, &gt; quote, [link](https://…), and :::spoiler … ::: to hide
+          spoilers.
+        </span>
       </div>
 
       <div className="form-actions">
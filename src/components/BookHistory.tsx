@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import type { Book, BookInput } from '../types/book';
+import type { BookRevision, FieldChange } from '../types/revision';
+import { getRevisions } from '../db/indexedDB';
+import { formatFieldValue, getRevertChanges, REVISION_FIELD_LABELS } from '../utils/revisions';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+interface BookHistoryProps {
+  book: Book;
+  onRevert: (id: string, changes: Partial<BookInput>) => void;
+}
+
+export function BookHistory({ book, onRevert }: BookHistoryProps) {
+  const [revisions, setRevisions] = useState<BookRevision[] | null>(null);
+  const { languageName, formatName } = useLibraryOptions();
+
+  // updatedAt changes with every update, which adds a revision
+  useEffect(() => {
+    getRevisions(book.id)
+      .then(setRevisions)
+      .catch(err => console.warn('Failed to load edit history:', err));
+  }, [book.id, book.updatedAt.getTime()]);
+
+  const renderValue = (change: FieldChange, value: unknown, className: string) => {
+    const text = formatFieldValue(change.field, value, { languageName, formatName });
+    return text === null ? <span className="revision-empty">empty</span> : <span className={className}>{text}</span>;
+  };
+
+  const handleRevert = (revision: BookRevision) => {
+    const when = revision.createdAt.toLocaleString();
+    if (!window.confirm(`Revert "${book.title}" to how it was before the change on ${when}? Later changes are undone too.`)) {
+      return;
+    }
+    onRevert(book.id, getRevertChanges(revisions || [], revision.id));
+  };
+
+  if (!revisions) {
+    return null;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="book-history-empty">No changes since the book was added.</p>;
+  }
+
+  return (
+    <ol className="book-history">
+      {revisions.map(revision => (
+        <li key={revision.id} className="revision">
+          <div className="revision-header">
+            <time dateTime={revision.createdAt.toISOString()}>{revision.createdAt.toLocaleString()}</time>
+            <button type="button" onClick={() => handleRevert(revision)} className="btn btn-sm btn-secondary">
+              Revert
+            </button>
+          </div>
+          <dl className="revision-changes">
+            {revision.changes.map(change => (
+              <div key={change.field} className="revision-change">
+                <dt>{REVISION_FIELD_LABELS[change.field]}</dt>
+                <dd>
+                  {renderValue(change, change.oldValue, 'revision-old')}
+                  <span className="revision-arrow" aria-hidden="true">→</span>
+                  {renderValue(change, change.newValue, 'revision-new')}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,32 +1,61 @@
-import type { Book } from '../types/book';
+import type { Book, BookInput } from '../types/book';
+import type { BookGroup } from '../utils/sorting';
 import { BookCard } from './BookCard';
 
 interface BookListProps {
   books: Book[];
   onEdit: (book: Book) => void;
   onDelete: (id: string) => void;
+  onRevert: (id: string, changes: Partial<BookInput>) => void;
+  emptyMessage?: string; // Replaces the "no books yet" hint, e.g. when filters hide every book
+  groups?: BookGroup[]; // When given, books are rendered in sections with headers
 }
 
-export function BookList({ books, onEdit, onDelete }: BookListProps) {
+export function BookList({ books, onEdit, onDelete, onRevert, emptyMessage, groups }: BookListProps) {
   if (books.length === 0) {
     return (
       <div className="empty-state">
-        <p className="empty-state-message">No books logged yet.</p>
-        <p className="empty-state-hint">Click "Add Book" to start logging your reading!</p>
+        {emptyMessage ? (
+          <p className="empty-state-message">{emptyMessage}</p>
+        ) : (
+          <>
+            <p className="empty-state-message">No books logged yet.</p>
+            <p className="empty-state-hint">Click "Add Book" to start logging your reading!</p>
+          </>
+        )}
       </div>
     );
   }
 
-  return (
+  const renderCards = (groupBooks: Book[]) => (
     <div className="book-list">
-      {books.map(book => (
+      {groupBooks.map(book => (
         <BookCard
           key={book.id}
           book={book}
           onEdit={onEdit}
           onDelete={onDelete}
+          onRevert={onRevert}
         />
       ))}
     </div>
   );
+
+  if (!groups) {
+    return renderCards(books);
+  }
+
+  return (
+    <div className="book-groups">
+      {groups.map(group => (
+        <section key={group.key} className="book-group">
+          <h3 className="book-group-header">
+            {group.label}
+            <span className="book-group-count">{group.books.length}</span>
+          </h3>
+          {renderCards(group.books)}
+        </section>
+      ))}
+    </div>
+  );
 }
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'react';
+import type { Book } from '../types/book';
+import type { ProgressEntry } from '../types/progress';
+import { addProgressEntry, getProgressEntries, deleteProgressEntry, getBookById } from '../db/indexedDB';
+import { toDateInputValue, fromDateInputValue, today } from '../utils/dates';
+
+interface BookProgressProps {
+  book: Book;
+  onPagesReadChange: (pagesRead: number | undefined) => void; // Logging a session updates the book
+}
+
+// Number of most recent sessions listed under the progress bar
+const RECENT_SESSIONS = 3;
+
+export function BookProgress({ book, onPagesReadChange }: BookProgressProps) {
+  const [entries, setEntries] = useState<ProgressEntry[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [startPage, setStartPage] = useState('');
+  const [endPage, setEndPage] = useState('');
+  const [date, setDate] = useState(toDateInputValue(today()));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getProgressEntries(book.id)
+      .then(setEntries)
+      .catch(err => console.warn('Failed to load progress entries:', err));
+  }, [book.id]);
+
+  const pagesRead = book.pagesRead || 0;
+  const percent = book.pages > 0 ? Math.min(100, Math.round((pagesRead / book.pages) * 100)) : 0;
+
+  const openForm = () => {
+    setStartPage(String(pagesRead));
+    setEndPage('');
+    setDate(toDateInputValue(today()));
+    setError(null);
+    setShowForm(true);
+  };
+
+  const reloadPagesRead = async () => {
+    const updated = await getBookById(book.id);
+    if (updated) onPagesReadChange(updated.pagesRead);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const start = Number(startPage);
+    const end = Number(endPage);
+    const sessionDate = fromDateInputValue(date);
+
+    if (endPage === '' || isNaN(start) || isNaN(end) || start < 0) {
+      setError('Enter the pages you read');
+      return;
+    }
+    if (end <= start) {
+      setError('End page must be after start page');
+      return;
+    }
+    if (book.pages > 0 && end > book.pages) {
+      setError('End page cannot exceed total pages');
+      return;
+    }
+    if (!sessionDate) {
+      setError('Choose a date');
+      return;
+    }
+
+    try {
+      const entry = await addProgressEntry({ bookId: book.id, startPage: start, endPage: end, date: sessionDate });
+      setEntries(prev => [...prev, entry].sort((a, b) => a.date.getTime() - b.date.getTime()));
+      setShowForm(false);
+      await reloadPagesRead();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log progress');
+    }
+  };
+
+  const handleDeleteEntry = async (id: string) => {
+    try {
+      await deleteProgressEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+      await reloadPagesRead();
+    } catch (err) {
+      console.warn('Failed to delete progress entry:', err);
+    }
+  };
+
+  return (
+    <div className="book-progress">
+      {book.pages > 0 && (
+        <div className="progress-summary">
+          <div
+            className="progress-bar"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+          >
+            <div className="progress-bar-fill" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="progress-label">{percent}% · p. {pagesRead}/{book.pages}</span>
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <ul className="progress-sessions">
+          {entries.slice(-RECENT_SESSIONS).reverse().map(entry => (
+            <li key={entry.id}>
+              <span>
+                p. {entry.startPage}–{entry.endPage} on{' '}
+                {entry.date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              </span>
+              <button
+                type="button"
+                onClick={() => handleDeleteEntry(entry.id)}
+                className="progress-session-remove"
+                aria-label="Remove session"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="progress-form">
+          <input
+            type="number"
+            min="0"
+            value={startPage}
+            onChange={(e) => setStartPage(e.target.value)}
+            aria-label="From page"
+            placeholder="From"
+          />
+          <span>–</span>
+          <input
+            type="number"
+            min="0"
+            max={book.pages || undefined}
+            value={endPage}
+            onChange={(e) => setEndPage(e.target.value)}
+            aria-label="To page"
+            placeholder="To"
+            autoFocus
+          />
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            aria-label="Session date"
+          />
+          <button type="submit" className="btn btn-sm btn-primary">Save</button>
+          <button type="button" onClick={() => setShowForm(false)} className="btn btn-sm btn-secondary">
+            Cancel
+          </button>
+          {error && <span className="error-message">{error}</span>}
+        </form>
+      ) : (
+        <button type="button" onClick={openForm} className="btn btn-sm btn-secondary progress-log-btn">
+          + Log progress
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import type { Book } from '../types/book';
+import type { Quote, QuoteInput } from '../types/quote';
+import { addQuote, deleteQuote, getQuotesForBook, updateQuote } from '../db/indexedDB';
+import { QuoteCard } from './QuoteCard';
+import { QuoteForm } from './QuoteForm';
+
+interface BookQuotesProps {
+  book: Book;
+}
+
+export function BookQuotes({ book }: BookQuotesProps) {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [editing, setEditing] = useState<Quote | 'new' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuotes = () => {
+    getQuotesForBook(book.id)
+      .then(setQuotes)
+      .catch(err => console.warn('Failed to load quotes:', err));
+  };
+
+  useEffect(() => {
+    loadQuotes();
+  }, [book.id]);
+
+  const handleSubmit = async (input: Omit<QuoteInput, 'bookId'>) => {
+    setError(null);
+    try {
+      if (editing && editing !== 'new') {
+        await updateQuote(editing.id, input);
+      } else {
+        await addQuote({ ...input, bookId: book.id });
+      }
+      setEditing(null);
+      loadQuotes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save quote');
+    }
+  };
+
+  const handleDelete = async (quote: Quote) => {
+    if (!window.confirm('Delete this quote?')) return;
+    try {
+      await deleteQuote(quote.id);
+      loadQuotes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete quote');
+    }
+  };
+
+  return (
+    <div className="book-quotes">
+      <div className="book-quotes-header">
+        <p className="notes-label">Quotes</p>
+        {!editing && (
+          <button type="button" onClick={() => setEditing('new')} className="btn btn-sm btn-secondary">
+            + Add quote
+          </button>
+        )}
+      </div>
+      {error && <p className="error-message">{error}</p>}
+      {editing === 'new' && <QuoteForm onSubmit={handleSubmit} onCancel={() => setEditing(null)} />}
+      {quotes.length === 0 && !editing && <p className="book-history-empty">No quotes saved yet.</p>}
+      {quotes.map(quote =>
+        editing !== 'new' && editing?.id === quote.id ? (
+          <QuoteForm key={quote.id} quote={quote} onSubmit={handleSubmit} onCancel={() => setEditing(null)} />
+        ) : (
+          <QuoteCard
+            key={quote.id}
+            quote={quote}
+            actions={
+              <>
+                <button type="button" onClick={() => setEditing(quote)} className="btn btn-sm btn-secondary">
+                  Edit
+                </button>
+                <button type="button" onClick={() => handleDelete(quote)} className="btn btn-sm btn-secondary">
+                  Delete
+                </button>
+              </>
+            }
+          />
+        )
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,81 @@
-import type { Book } from '../types/book';
+import { useState } from 'react';
+import type { Book, BookInput } from '../types/book';
+import { moveItem } from '../utils/shelves';
 import { BookCard } from './BookCard';
 
 interface BookScrollListProps {
   books: Book[];
   onEdit: (book: Book) => void;
   onDelete: (id: string) => void;
+  onRevert: (id: string, changes: Partial<BookInput>) => void;
+  onReorder?: (bookIds: string[]) => void; // When given, books can be dragged into a new order
+  actions?: React.ReactNode; // Shown next to the title
   title?: string;
 }
 
-export function BookScrollList({ books, onEdit, onDelete, title = 'Your Books' }: BookScrollListProps) {
+export function BookScrollList({
+  books,
+  onEdit,
+  onDelete,
+  onRevert,
+  onReorder,
+  actions,
+  title = 'Your Books'
+}: BookScrollListProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
   if (books.length === 0) {
     return null;
   }
 
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (onReorder && dragIndex !== null && dragIndex !== index) {
+      onReorder(moveItem(books, dragIndex, index).map(book => book.id));
+    }
+    endDrag();
+  };
+
   return (
     <div className="book-scroll-section">
-      <h2 className="scroll-section-title">{title}</h2>
+      <div className="scroll-section-header">
+        <h2 className="scroll-section-title">{title}</h2>
+        {actions}
+      </div>
       <div className="book-scroll-container">
         <div className="book-scroll-list">
-          {books.map(book => (
-            <div key={book.id} className="book-scroll-item">
+          {books.map((book, index) => (
+            <div
+              key={book.id}
+              className={[
+                'book-scroll-item',
+                dragIndex === index ? 'dragging' : '',
+                dropIndex === index && dragIndex !== index ? 'drop-target' : ''
+              ].filter(Boolean).join(' ')}
+              draggable={!!onReorder}
+              onDragStart={onReorder ? (e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              } : undefined}
+              onDragOver={onReorder ? (e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                setDropIndex(index);
+              } : undefined}
+              onDrop={onReorder ? (e) => handleDrop(e, index) : undefined}
+              onDragEnd={onReorder ? endDrag : undefined}
+            >
               <BookCard
                 book={book}
                 onEdit={onEdit}
                 onDelete={onDelete}
+                onRevert={onRevert}
               />
             </div>
           ))}
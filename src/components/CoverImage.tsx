@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Book } from '../types/book';
+import { getCover } from '../db/indexedDB';
+
+interface CoverImageProps {
+  book: Book;
+}
+
+/**
+ * Cover image that is only read from IndexedDB once it scrolls into view.
+ * Renders nothing for books without a cover.
+ */
+export function CoverImage({ book }: CoverImageProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || visible) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          setVisible(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getCover(book.id)
+      .then(blob => {
+        if (cancelled || !blob) {
+          setUrl(null);
+          return;
+        }
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch(error => console.warn('Failed to load cover:', error));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    // updatedAt changes whenever the book, and possibly its cover, is saved. Compare
+    // its time, as every reload of the list creates new Date objects.
+  }, [visible, book.id, book.updatedAt.getTime()]);
+
+  return (
+    <div ref={containerRef} className={url ? 'book-cover' : 'book-cover-placeholder'}>
+      {url && <img src={url} alt={`Cover of ${book.title}`} />}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect, useRef } from 'react';
+import type { CoverChange } from '../types/cover';
+import { getCover } from '../db/indexedDB';
+import { downscaleImage } from '../utils/image';
+
+interface CoverInputProps {
+  bookId?: string; // Book whose stored cover is shown until it is changed
+  value: CoverChange;
+  onChange: (cover: CoverChange) => void;
+}
+
+export function CoverInput({ bookId, value, onChange }: CoverInputProps) {
+  const [storedCover, setStoredCover] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setStoredCover(null);
+    if (!bookId) return;
+    getCover(bookId)
+      .then(setStoredCover)
+      .catch(err => console.warn('Failed to load cover:', err));
+  }, [bookId]);
+
+  const shownCover = value === undefined ? storedCover : value;
+
+  useEffect(() => {
+    if (!shownCover) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(shownCover);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [shownCover]);
+
+  const handleImage = async (image: Blob) => {
+    setError(null);
+    setBusy(true);
+    try {
+      onChange(await downscaleImage(image));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process image');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Accept images pasted anywhere while the form is open; text pastes are left alone
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const image = Array.from(e.clipboardData?.files || []).find(file => file.type.startsWith('image/'));
+      if (!image) return;
+      e.preventDefault();
+      handleImage(image);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handleImage(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImage(file);
+  };
+
+  return (
+    <div className="cover-input">
+      <div
+        className={`cover-dropzone ${dragging ? 'dragging' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+      >
+        {previewUrl ? (
+          <img src={previewUrl} alt="Cover preview" className="cover-preview" />
+        ) : (
+          <span className="cover-dropzone-hint">
+            {busy ? 'Processing...' : 'Drop, paste or click to choose a cover image'}
+          </span>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        className="cover-file-input"
+      />
+      {shownCover && (
+        <button type="button" onClick={() => onChange(null)} className="btn btn-sm btn-secondary">
+          Remove cover
+        </button>
+      )}
+      {error && <span className="error-message">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import type { Book } from '../types/book';
+import { booksToCSV, VIBE_SEPARATORS } from '../utils/bookCsv';
+import { downloadFile, datedFilename } from '../utils/download';
+
+interface CsvExportProps {
+  books: Book[];
+}
+
+export function CsvExport({ books }: CsvExportProps) {
+  const [separator, setSeparator] = useState<string>(VIBE_SEPARATORS[0]);
+
+  const handleExport = () => {
+    // Byte order mark so spreadsheet apps detect UTF-8
+    const csv = '\uFEFF' + booksToCSV(books, { vibeSeparator: separator });
+    downloadFile(csv, datedFilename('book-log', 'csv'), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="csv-export">
+      <label htmlFor="vibeSeparator" className="csv-export-label">Vibe separator</label>
+      <select
+        id="vibeSeparator"
+        value={separator}
+        onChange={(e) => setSeparator(e.target.value)}
+        className="csv-export-select"
+      >
+        {VIBE_SEPARATORS.map(option => (
+          <option key={option} value={option}>
+            {option.trim()}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={handleExport}
+        className="btn btn-secondary"
+        disabled={books.length === 0}
+      >
+        Export CSV ({books.length})
+      </button>
+    </div>
+  );
+}
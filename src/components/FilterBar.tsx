@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { PREDEFINED_VIBES } from '../types/book';
+import type { BookFilters } from '../types/filters';
+import { EMPTY_FILTERS } from '../types/filters';
+import { hasActiveFilters } from '../utils/filters';
+import { formatPeriodKey } from '../utils/dates';
+import { getAllUsedTags } from '../db/indexedDB';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+interface FilterBarProps {
+  filters: BookFilters;
+  onChange: (filters: BookFilters) => void;
+  resultCount: number;
+}
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+export function FilterBar({ filters, onChange, resultCount }: FilterBarProps) {
+  const [usedTags, setUsedTags] = useState<string[]>([]);
+  const { languages, formats } = useLibraryOptions();
+
+  useEffect(() => {
+    getAllUsedTags()
+      .then(tags => setUsedTags(tags))
+      .catch(error => console.warn('Failed to load used tags:', error));
+  }, []);
+
+  // Predefined vibes first, then custom ones, plus any selected vibe from the URL
+  const vibeOptions = Array.from(
+    new Set<string>([
+      ...PREDEFINED_VIBES,
+      ...usedTags.filter(tag => !(PREDEFINED_VIBES as readonly string[]).includes(tag)),
+      ...filters.vibes
+    ])
+  );
+
+  const update = (changes: Partial<BookFilters>) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const handleRatingChange = (name: 'minRating' | 'maxRating', value: string) => {
+    update({ [name]: value === '' ? undefined : Math.min(10, Math.max(1, Number(value))) });
+  };
+
+  return (
+    <div className="filter-bar">
+      <div className="filter-row">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search title, author, genre or notes..."
+          className="filter-search"
+          aria-label="Search books"
+        />
+        <span className="filter-count">
+          {resultCount} {resultCount === 1 ? 'book' : 'books'}
+        </span>
+        {hasActiveFilters(filters) && (
+          <button type="button" onClick={() => onChange(EMPTY_FILTERS)} className="btn btn-sm btn-secondary">
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      {(filters.author || filters.period) && (
+        <div className="filter-row">
+          {filters.author && (
+            <span className="filter-active">
+              Author: {filters.author}
+              <button
+                type="button"
+                onClick={() => update({ author: undefined })}
+                className="filter-active-remove"
+                aria-label="Remove author filter"
+              >
+                ×
+              </button>
+            </span>
+          )}
+          {filters.period && (
+            <span className="filter-active">
+              Read in {formatPeriodKey(filters.period)}
+              <button
+                type="button"
+                onClick={() => update({ period: undefined })}
+                className="filter-active-remove"
+                aria-label="Remove period filter"
+              >
+                ×
+              </button>
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="filter-row">
+        <span className="filter-label">Format</span>
+        <div className="filter-chips">
+          {formats.map(format => (
+            <button
+              key={format.id}
+              type="button"
+              className={`filter-chip ${filters.formats.includes(format.id) ? 'active' : ''}`}
+              onClick={() => update({ formats: toggleValue(filters.formats, format.id) })}
+              aria-pressed={filters.formats.includes(format.id)}
+            >
+              {format.name}
+            </button>
+          ))}
+        </div>
+
+        <span className="filter-label">Language</span>
+        <div className="filter-chips">
+          {languages.map(language => (
+            <button
+              key={language.code}
+              type="button"
+              className={`filter-chip ${filters.languages.includes(language.code) ? 'active' : ''}`}
+              onClick={() => update({ languages: toggleValue(filters.languages, language.code) })}
+              aria-pressed={filters.languages.includes(language.code)}
+            >
+              {language.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="filter-row">
+        <span className="filter-label">Rating</span>
+        <input
+          type="number"
+          min="1"
+          max="10"
+          value={filters.minRating ?? ''}
+          onChange={(e) => handleRatingChange('minRating', e.target.value)}
+          placeholder="1"
+          className="filter-rating"
+          aria-label="Minimum rating"
+        />
+        <span className="filter-separator">–</span>
+        <input
+          type="number"
+          min="1"
+          max="10"
+          value={filters.maxRating ?? ''}
+          onChange={(e) => handleRatingChange('maxRating', e.target.value)}
+          placeholder="10"
+          className="filter-rating"
+          aria-label="Maximum rating"
+        />
+      </div>
+
+      <div className="filter-row">
+        <span className="filter-label">Vibes</span>
+        <div className="filter-chips">
+          {vibeOptions.map(vibe => (
+            <button
+              key={vibe}
+              type="button"
+              className={`filter-chip ${filters.vibes.includes(vibe) ? 'active' : ''}`}
+              onClick={() => update({ vibes: toggleValue(filters.vibes, vibe) })}
+              aria-pressed={filters.vibes.includes(vibe)}
+            >
+              {vibe}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
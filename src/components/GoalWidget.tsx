@@ -0,0 +1,154 @@
+import { useState, useEffect } from 'react';
+import type { Book } from '../types/book';
+import type { ReadingGoal } from '../types/goal';
+import { getGoal, saveGoal, deleteGoal, getBooksFinishedBetween } from '../db/indexedDB';
+import { computeGoalProgress, yearRange, type TargetProgress } from '../utils/goals';
+
+interface GoalWidgetProps {
+  refreshKey: number; // Changes whenever the library changes
+}
+
+function formatPace(perWeek: number, unit: string): string {
+  if (perWeek === 0) return 'Goal reached';
+  if (perWeek < 1) return `${(perWeek * 4.345).toFixed(1)} ${unit} per month to finish`;
+  return `${perWeek.toFixed(1)} ${unit} per week to finish`;
+}
+
+function GoalMeter({ label, unit, progress }: { label: string; unit: string; progress: TargetProgress }) {
+  const percent = Math.min(100, Math.round((progress.done / progress.target) * 100));
+  const ahead = Math.round(progress.ahead);
+  const schedule =
+    ahead > 0 ? `${ahead} ${unit} ahead` : ahead < 0 ? `${-ahead} ${unit} behind` : 'On schedule';
+
+  return (
+    <div className="goal-meter">
+      <div className="goal-meter-header">
+        <span className="goal-meter-label">{label}</span>
+        <span className="goal-meter-count">
+          {progress.done.toLocaleString()} / {progress.target.toLocaleString()}
+        </span>
+      </div>
+      <div className="progress-bar">
+        <div className="progress-bar-fill" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="goal-meter-details">
+        <span className={ahead < 0 ? 'goal-behind' : 'goal-ahead'}>{schedule}</span>
+        <span>{formatPace(progress.neededPerWeek, unit)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function GoalWidget({ refreshKey }: GoalWidgetProps) {
+  const year = new Date().getFullYear();
+  const [goal, setGoal] = useState<ReadingGoal | null>(null);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState({ targetBooks: '', targetPages: '', countDnfBooks: false });
+
+  useEffect(() => {
+    const { start, end } = yearRange(year);
+    Promise.all([getGoal(year), getBooksFinishedBetween(start, end)])
+      .then(([savedGoal, finishedBooks]) => {
+        setGoal(savedGoal);
+        setBooks(finishedBooks);
+      })
+      .catch(error => console.warn('Failed to load reading goal:', error));
+  }, [year, refreshKey]);
+
+  const startEditing = () => {
+    setDraft({
+      targetBooks: goal?.targetBooks ? String(goal.targetBooks) : '',
+      targetPages: goal?.targetPages ? String(goal.targetPages) : '',
+      countDnfBooks: goal?.countDnfBooks || false
+    });
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const targetBooks = Number(draft.targetBooks) || undefined;
+    const targetPages = Number(draft.targetPages) || undefined;
+
+    try {
+      if (!targetBooks && !targetPages) {
+        await deleteGoal(year);
+        setGoal(null);
+      } else {
+        setGoal(await saveGoal({ year, targetBooks, targetPages, countDnfBooks: draft.countDnfBooks }));
+      }
+      setEditing(false);
+    } catch (error) {
+      console.warn('Failed to save reading goal:', error);
+    }
+  };
+
+  if (editing) {
+    return (
+      <form onSubmit={handleSave} className="goal-widget goal-form">
+        <h3>{year} reading goal</h3>
+        <div className="goal-form-fields">
+          <label>
+            Books
+            <input
+              type="number"
+              min="0"
+              value={draft.targetBooks}
+              onChange={(e) => setDraft(prev => ({ ...prev, targetBooks: e.target.value }))}
+            />
+          </label>
+          <label>
+            Pages
+            <input
+              type="number"
+              min="0"
+              value={draft.targetPages}
+              onChange={(e) => setDraft(prev => ({ ...prev, targetPages: e.target.value }))}
+            />
+          </label>
+        </div>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={draft.countDnfBooks}
+            onChange={(e) => setDraft(prev => ({ ...prev, countDnfBooks: e.target.checked }))}
+          />
+          Count did-not-finish books toward the book goal
+        </label>
+        <p className="goal-hint">Pages read in did-not-finish books always count toward the page goal.</p>
+        <div className="form-actions">
+          <button type="submit" className="btn btn-sm btn-primary">Save goal</button>
+          <button type="button" onClick={() => setEditing(false)} className="btn btn-sm btn-secondary">
+            Cancel
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!goal) {
+    return (
+      <div className="goal-widget goal-widget-empty">
+        <button type="button" onClick={startEditing} className="btn btn-sm btn-secondary">
+          Set a {year} reading goal
+        </button>
+      </div>
+    );
+  }
+
+  const progress = computeGoalProgress(goal, books);
+
+  return (
+    <div className="goal-widget">
+      <div className="goal-widget-header">
+        <h3>{year} reading goal</h3>
+        <span className="goal-days-left">{progress.daysLeft} days left</span>
+        <button type="button" onClick={startEditing} className="btn btn-sm btn-secondary">
+          Edit
+        </button>
+      </div>
+      {progress.books && <GoalMeter label="Books" unit="books" progress={progress.books} />}
+      {progress.pages && <GoalMeter label="Pages" unit="pages" progress={progress.pages} />}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { addBook } from '../db/indexedDB';
+import { getStatusLabel } from '../types/book';
+import { parseGoodreadsCSV, type GoodreadsRow } from '../utils/goodreads';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+interface GoodreadsImportProps {
+  onImported: () => void;
+}
+
+export function GoodreadsImport({ onImported }: GoodreadsImportProps) {
+  const [rows, setRows] = useState<GoodreadsRow[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { formatName } = useLibraryOptions();
+
+  const isValid = (row: GoodreadsRow) => Object.keys(row.errors).length === 0;
+  const invalidCount = rows.filter(row => !isValid(row)).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setSummary(null);
+    try {
+      const parsedRows = parseGoodreadsCSV(await file.text());
+      setRows(parsedRows);
+      // Accept every valid row by default
+      setSelected(new Set(parsedRows.filter(isValid).map(row => row.rowNumber)));
+    } catch (err) {
+      setRows([]);
+      setError(err instanceof Error ? err.message : 'Failed to read CSV file');
+    }
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const accepted = rows.filter(row => selected.has(row.rowNumber) && isValid(row));
+    setBusy(true);
+    setError(null);
+
+    const failed: GoodreadsRow[] = [];
+    for (const row of accepted) {
+      try {
+        await addBook(row.input);
+      } catch (err) {
+        console.warn(`Failed to import row ${row.rowNumber}:`, err);
+        failed.push(row);
+      }
+    }
+
+    setBusy(false);
+    setSummary(
+      `Imported ${accepted.length - failed.length} of ${accepted.length} selected books` +
+        (failed.length > 0 ? ` (failed rows: ${failed.map(row => row.rowNumber).join(', ')})` : '') +
+        '.'
+    );
+    setRows(failed);
+    setSelected(new Set(failed.map(row => row.rowNumber)));
+    onImported();
+  };
+
+  return (
+    <div className="import-panel">
+      <p className="backup-hint">
+        In Goodreads, go to My Books → Import and export → Export Library, then choose the downloaded CSV file.
+        Ratings are scaled from 1–5 stars to 1–10, and bookshelves become vibes.
+      </p>
+      <input type="file" accept="text/csv,.csv" onChange={handleFileChange} />
+
+      {error && <p className="error-message">{error}</p>}
+      {summary && <p className="backup-result">{summary}</p>}
+
+      {rows.length > 0 && (
+        <>
+          <p>
+            <strong>{rows.length}</strong> rows found
+            {invalidCount > 0 && (
+              <>, <strong className="import-invalid-count">{invalidCount}</strong> need attention and will not be imported</>
+            )}
+            .
+          </p>
+
+          <div className="import-table-container">
+            <table className="import-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>#</th>
+                  <th>Title</th>
+                  <th>Author</th>
+                  <th>Status</th>
+                  <th>Pages</th>
+                  <th>Rating</th>
+                  <th>Format</th>
+                  <th>Vibes</th>
+                  <th>Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const valid = isValid(row);
+                  return (
+                    <tr key={row.rowNumber} className={valid ? '' : 'import-row-invalid'}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={valid && selected.has(row.rowNumber)}
+                          disabled={!valid}
+                          onChange={() => toggleRow(row.rowNumber)}
+                          aria-label={`Import row ${row.rowNumber}`}
+                        />
+                      </td>
+                      <td>{row.rowNumber}</td>
+                      <td>{row.input.title}</td>
+                      <td>{row.input.author}</td>
+                      <td>{getStatusLabel(row.input.status)}</td>
+                      <td>{row.input.pages || ''}</td>
+                      <td>{row.input.rating ?? ''}</td>
+                      <td>{formatName(row.input.format)}</td>
+                      <td>{row.input.vibes.join(', ')}</td>
+                      <td className="import-errors">{Object.values(row.errors).join('; ')}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="form-actions">
+            <button
+              type="button"
+              onClick={handleImport}
+              className="btn btn-primary"
+              disabled={busy || selected.size === 0}
+            >
+              {busy ? 'Importing...' : `Import ${selected.size} books`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
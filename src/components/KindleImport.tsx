@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import type { Book } from '../types/book';
+import { addBook, getAllBooks, importQuotes } from '../db/indexedDB';
+import {
+  groupKindleClippings,
+  kindleBookToInput,
+  matchKindleBook,
+  parseKindleClippings,
+  type KindleBook
+} from '../utils/kindle';
+
+interface KindleImportProps {
+  onImported: () => void;
+}
+
+// Where the clippings of a Kindle book go: an existing book id, a new book or nowhere
+type KindleTarget = string | 'new' | 'skip';
+
+export function KindleImport({ onImported }: KindleImportProps) {
+  const [kindleBooks, setKindleBooks] = useState<KindleBook[]>([]);
+  const [books, setBooks] = useState<Book[]>([]);
+  const [targets, setTargets] = useState<Record<string, KindleTarget>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const selectedCount = kindleBooks.filter(kindleBook => targets[kindleBook.key] !== 'skip').length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setSummary(null);
+    try {
+      const grouped = groupKindleClippings(parseKindleClippings(await file.text()));
+      const library = await getAllBooks();
+      library.sort((a, b) => a.title.localeCompare(b.title));
+      setBooks(library);
+      setKindleBooks(grouped);
+      // Suggest the matching book, or a new one when there is none
+      setTargets(
+        Object.fromEntries(
+          grouped.map(kindleBook => [kindleBook.key, matchKindleBook(kindleBook, library)?.id || 'new'])
+        )
+      );
+    } catch (err) {
+      setKindleBooks([]);
+      setError(err instanceof Error ? err.message : 'Failed to read clippings file');
+    }
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    setError(null);
+
+    let added = 0;
+    let skipped = 0;
+    let created = 0;
+    const failed: KindleBook[] = [];
+    for (const kindleBook of kindleBooks) {
+      const target = targets[kindleBook.key];
+      if (target === 'skip') continue;
+      try {
+        let bookId = target;
+        if (target === 'new') {
+          const book = await addBook(kindleBookToInput(kindleBook));
+          bookId = book.id;
+          created++;
+          // Should importing the quotes fail, a retry adds them to this book instead of another new one
+          setBooks(prev => [...prev, book].sort((a, b) => a.title.localeCompare(b.title)));
+          setTargets(prev => ({ ...prev, [kindleBook.key]: book.id }));
+        }
+        const count = await importQuotes(bookId, kindleBook.quotes);
+        added += count;
+        skipped += kindleBook.quotes.length - count;
+      } catch (err) {
+        console.warn(`Failed to import clippings of ${kindleBook.title}:`, err);
+        failed.push(kindleBook);
+      }
+    }
+
+    setBusy(false);
+    setSummary(
+      `Imported ${added} ${added === 1 ? 'highlight' : 'highlights'}` +
+        (skipped > 0 ? `, skipped ${skipped} already saved` : '') +
+        (created > 0 ? `, added ${created} new ${created === 1 ? 'book' : 'books'}` : '') +
+        (failed.length > 0 ? ` (failed: ${failed.map(kindleBook => kindleBook.title).join(', ')})` : '') +
+        '.'
+    );
+    setKindleBooks(failed);
+    onImported();
+  };
+
+  return (
+    <div className="import-panel">
+      <p className="backup-hint">
+        Connect your Kindle by USB and choose <code>documents/My Clippings.txt</code>. Highlights and notes are saved
+        as quotes of the matching book; ones you already have are skipped, so the same file can be imported again.
+      </p>
+      <input type="file" accept="text/plain,.txt" onChange={handleFileChange} />
+
+      {error && <p className="error-message">{error}</p>}
+      {summary && <p className="backup-result">{summary}</p>}
+
+      {kindleBooks.length > 0 && (
+        <>
+          <p>
+            <strong>{kindleBooks.length}</strong> books with clippings found.
+          </p>
+
+          <div className="import-table-container">
+            <table className="import-table">
+              <thead>
+                <tr>
+                  <th>Title</th>
+                  <th>Author</th>
+                  <th>Clippings</th>
+                  <th>Add to</th>
+                </tr>
+              </thead>
+              <tbody>
+                {kindleBooks.map(kindleBook => (
+                  <tr key={kindleBook.key}>
+                    <td>{kindleBook.title}</td>
+                    <td>{kindleBook.author}</td>
+                    <td>{kindleBook.quotes.length}</td>
+                    <td>
+                      <select
+                        value={targets[kindleBook.key]}
+                        onChange={(e) => setTargets(prev => ({ ...prev, [kindleBook.key]: e.target.value }))}
+                        aria-label={`Book for clippings of ${kindleBook.title}`}
+                      >
+                        <option value="new">New e-book</option>
+                        <option value="skip">Don't import</option>
+                        {books.map(book => (
+                          <option key={book.id} value={book.id}>
+                            {book.title} – {book.author}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="form-actions">
+            <button
+              type="button"
+              onClick={handleImport}
+              className="btn btn-primary"
+              disabled={busy || selectedCount === 0}
+            >
+              {busy ? 'Importing...' : `Import clippings of ${selectedCount} books`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { FormatOption, LanguageOption } from '../types/book';
+import { DEFAULT_FORMATS, DEFAULT_LANGUAGES } from '../types/book';
+import { getFormats, getLanguages } from '../db/indexedDB';
+import { getFormatName, getLanguageName } from '../utils/libraryOptions';
+
+interface LibraryOptionsContextValue {
+  languages: LanguageOption[];
+  formats: FormatOption[];
+  languageName: (code: string) => string;
+  formatName: (id: string) => string;
+  refresh: () => void; // Reload after the lists were edited
+}
+
+const LibraryOptionsContext = createContext<LibraryOptionsContextValue>({
+  languages: DEFAULT_LANGUAGES,
+  formats: DEFAULT_FORMATS,
+  languageName: code => getLanguageName(DEFAULT_LANGUAGES, code),
+  formatName: id => getFormatName(DEFAULT_FORMATS, id),
+  refresh: () => {}
+});
+
+/**
+ * Loads the configured languages and formats and shares them with the app
+ */
+export function LibraryOptionsProvider({ children }: { children: React.ReactNode }) {
+  const [languages, setLanguages] = useState<LanguageOption[]>(DEFAULT_LANGUAGES);
+  const [formats, setFormats] = useState<FormatOption[]>(DEFAULT_FORMATS);
+
+  const refresh = useCallback(() => {
+    Promise.all([getLanguages(), getFormats()])
+      .then(([savedLanguages, savedFormats]) => {
+        setLanguages(savedLanguages);
+        setFormats(savedFormats);
+      })
+      .catch(error => console.warn('Failed to load languages and formats:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const value: LibraryOptionsContextValue = {
+    languages,
+    formats,
+    languageName: code => getLanguageName(languages, code),
+    formatName: id => getFormatName(formats, id),
+    refresh
+  };
+
+  return <LibraryOptionsContext.Provider value={value}>{children}</LibraryOptionsContext.Provider>;
+}
+
+export function useLibraryOptions(): LibraryOptionsContextValue {
+  return useContext(LibraryOptionsContext);
+}
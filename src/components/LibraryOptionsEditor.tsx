@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import type { FormatOption, LanguageOption } from '../types/book';
+import { countBooksWith, saveFormats, saveLanguages } from '../db/indexedDB';
+import { getLanguageDisplayName, isLanguageCode, toFormatId } from '../utils/libraryOptions';
+import { getBadgeStyle } from '../utils/tagStyles';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+const DEFAULT_FORMAT_COLOR = '#e5e7eb';
+
+export function LibraryOptionsEditor() {
+  const { languages, formats, refresh } = useLibraryOptions();
+  const [languageCode, setLanguageCode] = useState('');
+  const [languageName, setLanguageName] = useState('');
+  const [formatName, setFormatName] = useState('');
+  const [formatColor, setFormatColor] = useState(DEFAULT_FORMAT_COLOR);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    }
+  };
+
+  const handleLanguageCodeChange = (value: string) => {
+    const code = value.trim().toLowerCase();
+    setLanguageCode(code);
+    // Suggest the English name once a full code is typed
+    if (isLanguageCode(code)) {
+      setLanguageName(getLanguageDisplayName(code));
+    }
+  };
+
+  const handleAddLanguage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isLanguageCode(languageCode)) {
+      setError('Use a two-letter ISO 639-1 code, e.g. "de" for German');
+      return;
+    }
+    if (languages.some(option => option.code === languageCode)) {
+      setError(`The language "${languageCode}" already exists`);
+      return;
+    }
+    const name = languageName.trim() || getLanguageDisplayName(languageCode);
+    save(() => saveLanguages([...languages, { code: languageCode, name }]));
+    setLanguageCode('');
+    setLanguageName('');
+  };
+
+  const handleAddFormat = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formatName.trim();
+    const id = toFormatId(name);
+    if (!id) {
+      setError('Format name is required');
+      return;
+    }
+    if (formats.some(option => option.id === id)) {
+      setError(`The format "${name}" already exists`);
+      return;
+    }
+    save(() => saveFormats([...formats, { id, name, color: formatColor }]));
+    setFormatName('');
+    setFormatColor(DEFAULT_FORMAT_COLOR);
+  };
+
+  const renameLanguage = (code: string, name: string) => {
+    if (!name.trim()) return;
+    save(() =>
+      saveLanguages(languages.map(option => (option.code === code ? { ...option, name: name.trim() } : option)))
+    );
+  };
+
+  const updateFormat = (id: string, changes: Partial<FormatOption>) => {
+    save(() => saveFormats(formats.map(option => (option.id === id ? { ...option, ...changes } : option))));
+  };
+
+  // Removing is only allowed while no book uses the value, so no book loses its language or format
+  const removeLanguage = (language: LanguageOption) =>
+    save(async () => {
+      const count = await countBooksWith('language', language.code);
+      if (count > 0) {
+        throw new Error(`${language.name} is used by ${count} ${count === 1 ? 'book' : 'books'}`);
+      }
+      await saveLanguages(languages.filter(option => option.code !== language.code));
+    });
+
+  const removeFormat = (format: FormatOption) =>
+    save(async () => {
+      const count = await countBooksWith('format', format.id);
+      if (count > 0) {
+        throw new Error(`${format.name} is used by ${count} ${count === 1 ? 'book' : 'books'}`);
+      }
+      await saveFormats(formats.filter(option => option.id !== format.id));
+    });
+
+  return (
+    <div className="options-editor">
+      {error && <p className="error-message">{error}</p>}
+
+      <section className="backup-section">
+        <h3>Languages</h3>
+        <ul className="options-list">
+          {languages.map(language => (
+            <li key={language.code}>
+              <code className="options-code">{language.code}</code>
+              <input
+                type="text"
+                defaultValue={language.name}
+                onBlur={(e) => e.target.value !== language.name && renameLanguage(language.code, e.target.value)}
+                aria-label={`Name of ${language.code}`}
+              />
+              <button type="button" onClick={() => removeLanguage(language)} className="btn btn-sm btn-secondary">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddLanguage} className="options-add">
+          <input
+            type="text"
+            value={languageCode}
+            onChange={(e) => handleLanguageCodeChange(e.target.value)}
+            placeholder="Code, e.g. de"
+            maxLength={2}
+            aria-label="Language code"
+          />
+          <input
+            type="text"
+            value={languageName}
+            onChange={(e) => setLanguageName(e.target.value)}
+            placeholder="Name"
+            aria-label="Language name"
+          />
+          <button type="submit" className="btn btn-sm btn-primary">
+            Add language
+          </button>
+        </form>
+      </section>
+
+      <section className="backup-section">
+        <h3>Formats</h3>
+        <ul className="options-list">
+          {formats.map(format => (
+            <li key={format.id}>
+              <span className="format-badge" style={format.color ? getBadgeStyle(format.color) : undefined}>
+                {format.name}
+              </span>
+              <input
+                type="text"
+                defaultValue={format.name}
+                onBlur={(e) =>
+                  e.target.value.trim() &&
+                  e.target.value !== format.name &&
+                  updateFormat(format.id, { name: e.target.value.trim() })
+                }
+                aria-label={`Name of ${format.name}`}
+              />
+              <input
+                type="color"
+                defaultValue={format.color || DEFAULT_FORMAT_COLOR}
+                onBlur={(e) => e.target.value !== format.color && updateFormat(format.id, { color: e.target.value })}
+                aria-label={`Color of ${format.name}`}
+              />
+              <button type="button" onClick={() => removeFormat(format)} className="btn btn-sm btn-secondary">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAddFormat} className="options-add">
+          <input
+            type="text"
+            value={formatName}
+            onChange={(e) => setFormatName(e.target.value)}
+            placeholder="e.g. Graphic novel"
+            aria-label="Format name"
+          />
+          <input
+            type="color"
+            value={formatColor}
+            onChange={(e) => setFormatColor(e.target.value)}
+            aria-label="Format color"
+          />
+          <button type="submit" className="btn btn-sm btn-primary">
+            Add format
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
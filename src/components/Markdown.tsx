@@ -0,0 +1,77 @@
+import type { ReactNode } from 'react';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '../utils/markdown';
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index}>{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        // Notes sit below the book title, so their headings start one level lower
+        const Heading = `h${Math.min(block.level + 3, 6)}` as 'h4' | 'h5' | 'h6';
+        return <Heading key={index}>{renderInline(block.children)}</Heading>;
+      }
+      case 'paragraph':
+        return <p key={index}>{renderInline(block.children)}</p>;
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderBlocks(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start}>{items}</ol>
+        ) : (
+          <ul key={index}>{items}</ul>
+        );
+      }
+      case 'blockquote':
+        return <blockquote key={index}>{renderBlocks(block.children)}</blockquote>;
+      case 'spoiler':
+        return (
+          <details key={index} className="markdown-spoiler">
+            <summary>{block.summary}</summary>
+            {renderBlocks(block.children)}
+          </details>
+        );
+      case 'code':
+        return (
+          <pre key={index}>
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'rule':
+        return <hr key={index} />;
+    }
+  });
+}
+
+/**
+ * Render Markdown as React elements. Nothing is inserted as HTML, so notes
+ * can't inject markup or scripts.
+ */
+export function Markdown({ text, className }: MarkdownProps) {
+  return <div className={className ? `markdown ${className}` : 'markdown'}>{renderBlocks(parseMarkdown(text))}</div>;
+}
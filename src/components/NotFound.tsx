@@ -0,0 +1,17 @@
+interface NotFoundProps {
+  message: string;
+  hint: string;
+  onBack: () => void;
+}
+
+export function NotFound({ message, hint, onBack }: NotFoundProps) {
+  return (
+    <div className="empty-state not-found">
+      <p className="empty-state-message">{message}</p>
+      <p className="empty-state-hint">{hint}</p>
+      <button type="button" onClick={onBack} className="btn btn-primary">
+        Back to books
+      </button>
+    </div>
+  );
+}
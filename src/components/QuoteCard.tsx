@@ -0,0 +1,39 @@
+import type { Book } from '../types/book';
+import type { Quote } from '../types/quote';
+import { formatQuoteLocation } from '../utils/quotes';
+import { routeHash } from '../utils/routes';
+
+interface QuoteCardProps {
+  quote: Quote;
+  book?: Book; // Shown as the source, e.g. in the quotes browser
+  actions?: React.ReactNode;
+}
+
+export function QuoteCard({ quote, book, actions }: QuoteCardProps) {
+  const location = formatQuoteLocation(quote);
+
+  return (
+    <figure className="quote-card">
+      <blockquote className="quote-text">{quote.text}</blockquote>
+      <figcaption className="quote-meta">
+        {book && (
+          <a href={routeHash({ name: 'book', id: book.id })} className="quote-source">
+            {book.title}, {book.author}
+          </a>
+        )}
+        {location && <span className="quote-location">{location}</span>}
+      </figcaption>
+      {quote.comment && <p className="quote-comment">{quote.comment}</p>}
+      {quote.tags.length > 0 && (
+        <div className="quote-tags">
+          {quote.tags.map(tag => (
+            <span key={tag} className="quote-tag">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+      {actions && <div className="quote-actions">{actions}</div>}
+    </figure>
+  );
+}
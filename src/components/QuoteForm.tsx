@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import type { Quote, QuoteInput } from '../types/quote';
+import { parseQuoteTags } from '../utils/quotes';
+
+interface QuoteFormProps {
+  quote?: Quote; // Quote being edited
+  onSubmit: (input: Omit<QuoteInput, 'bookId'>) => void;
+  onCancel: () => void;
+}
+
+export function QuoteForm({ quote, onSubmit, onCancel }: QuoteFormProps) {
+  const [text, setText] = useState(quote?.text || '');
+  const [page, setPage] = useState(quote?.page !== undefined ? String(quote.page) : '');
+  const [location, setLocation] = useState(quote?.location || '');
+  const [comment, setComment] = useState(quote?.comment || '');
+  const [tags, setTags] = useState(quote?.tags.join(', ') || '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const pageNumber = page.trim() ? Number(page) : undefined;
+
+    if (!text.trim()) {
+      setError('Enter the quote');
+      return;
+    }
+    if (pageNumber !== undefined && (!Number.isInteger(pageNumber) || pageNumber < 1)) {
+      setError('Page must be a positive whole number');
+      return;
+    }
+
+    onSubmit({
+      text: text.trim(),
+      page: pageNumber,
+      location: location.trim() || undefined,
+      comment: comment.trim() || undefined,
+      tags: parseQuoteTags(tags)
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="quote-form">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Quote"
+        rows={3}
+        aria-label="Quote"
+        autoFocus
+      />
+      <div className="quote-form-row">
+        <input
+          type="number"
+          value={page}
+          onChange={(e) => setPage(e.target.value)}
+          placeholder="Page"
+          min="1"
+          aria-label="Page"
+        />
+        <input
+          type="text"
+          value={location}
+          onChange={(e) => setLocation(e.target.value)}
+          placeholder="Location"
+          aria-label="Location"
+        />
+      </div>
+      <input
+        type="text"
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder="Comment (optional)"
+        aria-label="Comment"
+      />
+      <input
+        type="text"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, separated by commas"
+        aria-label="Tags"
+      />
+      {error && <span className="error-message">{error}</span>}
+      <div className="quote-form-actions">
+        <button type="submit" className="btn btn-sm btn-primary">
+          {quote ? 'Save' : 'Add quote'}
+        </button>
+        <button type="button" onClick={onCancel} className="btn btn-sm btn-secondary">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import type { Book } from '../types/book';
+import type { Quote } from '../types/quote';
+import { getAllBooks, getAllQuotes } from '../db/indexedDB';
+import { matchesQuoteSearch } from '../utils/quotes';
+import { QuoteCard } from './QuoteCard';
+
+/**
+ * Every saved quote across the library, searchable by text, comment, tag and book
+ */
+export function QuotesBrowser() {
+  const [quotes, setQuotes] = useState<Quote[] | null>(null);
+  const [books, setBooks] = useState<Map<string, Book>>(new Map());
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getAllQuotes(), getAllBooks()])
+      .then(([allQuotes, allBooks]) => {
+        setBooks(new Map(allBooks.map(book => [book.id, book])));
+        setQuotes(allQuotes);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load quotes'));
+  }, []);
+
+  if (!quotes) {
+    return error ? <p className="error-message">{error}</p> : <p>Loading...</p>;
+  }
+
+  if (quotes.length === 0) {
+    return (
+      <div className="empty-state">
+        <p className="empty-state-message">No quotes yet.</p>
+        <p className="empty-state-hint">Open "Quotes" on a book to save passages from it.</p>
+      </div>
+    );
+  }
+
+  const matching = quotes.filter(quote => matchesQuoteSearch(quote, books.get(quote.bookId), query));
+  const tags = Array.from(new Set(quotes.flatMap(quote => quote.tags))).sort((a, b) => a.localeCompare(b));
+
+  return (
+    <div className="quotes-browser">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search quotes, comments, tags or books"
+        aria-label="Search quotes"
+        className="quotes-search"
+      />
+      {tags.length > 0 && (
+        <div className="quote-tags">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => setQuery(query === tag ? '' : tag)}
+              className={`quote-tag ${query === tag ? 'active' : ''}`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="backup-hint">
+        {matching.length} of {quotes.length} {quotes.length === 1 ? 'quote' : 'quotes'}
+      </p>
+      <div className="quotes-list">
+        {matching.map(quote => (
+          <QuoteCard key={quote.id} quote={quote} book={books.get(quote.bookId)} />
+        ))}
+      </div>
+    </div>
+  );
+}
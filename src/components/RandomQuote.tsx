@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import type { Book } from '../types/book';
+import type { Quote } from '../types/quote';
+import { getAllBooks, getAllQuotes } from '../db/indexedDB';
+import { QuoteCard } from './QuoteCard';
+
+interface RandomQuoteProps {
+  refreshKey: number; // Changes whenever the library changes
+  onBrowse: () => void;
+}
+
+function pickRandom(quotes: Quote[], current?: Quote | null): Quote | null {
+  if (quotes.length === 0) return null;
+  // Avoid showing the same quote twice in a row
+  const candidates = quotes.length > 1 && current ? quotes.filter(quote => quote.id !== current.id) : quotes;
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+/**
+ * A random saved quote for the home screen; renders nothing until a quote exists
+ */
+export function RandomQuote({ refreshKey, onBrowse }: RandomQuoteProps) {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [books, setBooks] = useState<Map<string, Book>>(new Map());
+  const [quote, setQuote] = useState<Quote | null>(null);
+
+  useEffect(() => {
+    // Load every book, as the one quoted may be hidden by the filters
+    Promise.all([getAllQuotes(), getAllBooks()])
+      .then(([allQuotes, allBooks]) => {
+        setBooks(new Map(allBooks.map(book => [book.id, book])));
+        setQuotes(allQuotes);
+        setQuote(current => pickRandom(allQuotes, current));
+      })
+      .catch(err => console.warn('Failed to load quotes:', err));
+  }, [refreshKey]);
+
+  if (!quote) {
+    return null;
+  }
+
+  return (
+    <section className="random-quote">
+      <QuoteCard
+        quote={quote}
+        book={books.get(quote.bookId)}
+        actions={
+          <>
+            {quotes.length > 1 && (
+              <button type="button" onClick={() => setQuote(pickRandom(quotes, quote))} className="btn btn-sm btn-secondary">
+                Another quote
+              </button>
+            )}
+            <button type="button" onClick={onBrowse} className="btn btn-sm btn-secondary">
+              All quotes
+            </button>
+          </>
+        }
+      />
+    </section>
+  );
+}
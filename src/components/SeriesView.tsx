@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import type { Book } from '../types/book';
+import { getStatusLabel } from '../types/book';
+import { getAllSeriesNames, getBooksInSeries } from '../db/indexedDB';
+import { buildSeriesEntries } from '../utils/series';
+
+interface SeriesViewProps {
+  onEdit: (book: Book) => void;
+}
+
+interface SeriesData {
+  name: string;
+  books: Book[];
+}
+
+export function SeriesView({ onEdit }: SeriesViewProps) {
+  const [series, setSeries] = useState<SeriesData[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllSeriesNames()
+      .then(names => Promise.all(names.map(async name => ({ name, books: await getBooksInSeries(name) }))))
+      .then(setSeries)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load series'));
+  }, []);
+
+  if (error) {
+    return <p className="error-message">{error}</p>;
+  }
+
+  if (!series) {
+    return <p>Loading...</p>;
+  }
+
+  if (series.length === 0) {
+    return (
+      <div className="empty-state">
+        <p className="empty-state-message">No series yet.</p>
+        <p className="empty-state-hint">Add a series name when editing a book to see it here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="series-view">
+      {series.map(({ name, books }) => {
+        const entries = buildSeriesEntries(books);
+        const gapCount = entries.filter(entry => entry.kind === 'gap').length;
+
+        return (
+          <section key={name} className="series-section">
+            <h3 className="book-group-header">
+              {name}
+              <span className="book-group-count">{books.length}</span>
+              {gapCount > 0 && <span className="series-missing-count">{gapCount} missing</span>}
+            </h3>
+            <ol className="series-entries">
+              {entries.map(entry =>
+                entry.kind === 'gap' ? (
+                  <li key={`gap-${entry.position}`} className="series-entry series-entry-gap">
+                    <span className="series-position">#{entry.position}</span>
+                    <span className="series-entry-title">Not logged</span>
+                  </li>
+                ) : (
+                  <li key={entry.book.id} className="series-entry">
+                    <span className="series-position">
+                      {entry.position !== undefined ? `#${entry.position}` : '–'}
+                    </span>
+                    <button type="button" className="series-entry-title" onClick={() => onEdit(entry.book)}>
+                      {entry.book.title}
+                    </button>
+                    <span className="series-entry-meta">
+                      {entry.book.author} · {getStatusLabel(entry.book.status)}
+                      {entry.book.rating !== undefined && ` · ${entry.book.rating}/10`}
+                    </span>
+                  </li>
+                )
+              )}
+            </ol>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
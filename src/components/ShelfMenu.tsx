@@ -0,0 +1,98 @@
+import { useState, useEffect, useRef } from 'react';
+import { addShelf, setBookOnShelf } from '../db/indexedDB';
+import { useShelves } from './ShelvesContext';
+
+interface ShelfMenuProps {
+  bookId: string;
+}
+
+/**
+ * "Add to shelf" button with a dropdown of shelves to put the book on or take it off
+ */
+export function ShelfMenu({ bookId }: ShelfMenuProps) {
+  const { shelves, refresh } = useShelves();
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Handle clicking outside to close the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shelf');
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(async () => {
+      const shelf = await addShelf(newName);
+      await setBookOnShelf(shelf.id, bookId, true);
+      setNewName('');
+    });
+  };
+
+  const onShelfCount = shelves.filter(shelf => shelf.bookIds.includes(bookId)).length;
+
+  return (
+    <div className="shelf-menu" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="btn btn-sm btn-secondary"
+        aria-expanded={open}
+      >
+        {onShelfCount > 0 ? `Shelves (${onShelfCount})` : 'Add to shelf'}
+      </button>
+      {open && (
+        <div className="shelf-menu-dropdown" onKeyDown={(e) => e.key === 'Escape' && setOpen(false)}>
+          {shelves.length > 0 && (
+            <ul className="shelf-menu-list">
+              {shelves.map(shelf => (
+                <li key={shelf.id}>
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={shelf.bookIds.includes(bookId)}
+                      onChange={(e) => run(() => setBookOnShelf(shelf.id, bookId, e.target.checked))}
+                    />
+                    {shelf.name}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleCreate} className="shelf-menu-new">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New shelf"
+              aria-label="New shelf name"
+            />
+            <button type="submit" className="btn btn-sm btn-primary" disabled={!newName.trim()}>
+              Add
+            </button>
+          </form>
+          {error && <p className="error-message">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import type { Book, BookInput } from '../types/book';
+import type { Shelf } from '../types/shelf';
+import { deleteShelf, renameShelf, reorderShelf } from '../db/indexedDB';
+import { mergeShelfOrder } from '../utils/shelves';
+import { BookScrollList } from './BookScrollList';
+import { useShelves } from './ShelvesContext';
+
+interface ShelfRowsProps {
+  books: Book[]; // Books that may be shown, e.g. those matching the filters
+  onEdit: (book: Book) => void;
+  onDelete: (id: string) => void;
+  onRevert: (id: string, changes: Partial<BookInput>) => void;
+}
+
+/**
+ * One scrolling row per shelf, with its books in shelf order
+ */
+export function ShelfRows({ books, onEdit, onDelete, onRevert }: ShelfRowsProps) {
+  const { shelves, refresh } = useShelves();
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shelf');
+    }
+  };
+
+  const handleRename = (shelf: Shelf) => {
+    const name = window.prompt('Rename shelf', shelf.name);
+    if (name === null || name.trim() === shelf.name) return;
+    run(() => renameShelf(shelf.id, name));
+  };
+
+  const handleDelete = (shelf: Shelf) => {
+    if (window.confirm(`Delete the shelf "${shelf.name}"? The books on it are kept.`)) {
+      run(() => deleteShelf(shelf.id));
+    }
+  };
+
+  if (shelves.length === 0) {
+    return null;
+  }
+
+  const booksById = new Map(books.map(book => [book.id, book]));
+
+  return (
+    <div className="shelf-rows">
+      {error && <p className="error-message">{error}</p>}
+      {shelves.map(shelf => {
+        const shelfBooks = shelf.bookIds
+          .map(id => booksById.get(id))
+          .filter((book): book is Book => book !== undefined);
+        const actions = (
+          <div className="shelf-row-actions">
+            <button type="button" onClick={() => handleRename(shelf)} className="btn btn-sm btn-secondary">
+              Rename
+            </button>
+            <button type="button" onClick={() => handleDelete(shelf)} className="btn btn-sm btn-secondary">
+              Delete shelf
+            </button>
+          </div>
+        );
+
+        if (shelfBooks.length === 0) {
+          return (
+            <div key={shelf.id} className="book-scroll-section shelf-row-empty">
+              <div className="scroll-section-header">
+                <h2 className="scroll-section-title">{shelf.name}</h2>
+                {actions}
+              </div>
+              <p className="empty-state-hint">
+                {shelf.bookIds.length === 0
+                  ? 'No books yet. Use "Add to shelf" on a book to put it here.'
+                  : 'No books on this shelf match the filters.'}
+              </p>
+            </div>
+          );
+        }
+
+        return (
+          <BookScrollList
+            key={shelf.id}
+            title={shelf.name}
+            books={shelfBooks}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onRevert={onRevert}
+            onReorder={order => run(() => reorderShelf(shelf.id, mergeShelfOrder(shelf.bookIds, order)))}
+            actions={actions}
+          />
+        );
+      })}
+    </div>
+  );
+}
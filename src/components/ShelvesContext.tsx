@@ -0,0 +1,36 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Shelf } from '../types/shelf';
+import { getShelves } from '../db/indexedDB';
+
+interface ShelvesContextValue {
+  shelves: Shelf[];
+  refresh: () => void; // Reload after a shelf or its books changed
+}
+
+const ShelvesContext = createContext<ShelvesContextValue>({
+  shelves: [],
+  refresh: () => {}
+});
+
+/**
+ * Loads the shelves and shares them with the shelf rows and every book card
+ */
+export function ShelvesProvider({ children }: { children: React.ReactNode }) {
+  const [shelves, setShelves] = useState<Shelf[]>([]);
+
+  const refresh = useCallback(() => {
+    getShelves()
+      .then(setShelves)
+      .catch(error => console.warn('Failed to load shelves:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return <ShelvesContext.Provider value={{ shelves, refresh }}>{children}</ShelvesContext.Provider>;
+}
+
+export function useShelves(): ShelvesContextValue {
+  return useContext(ShelvesContext);
+}
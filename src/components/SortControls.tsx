@@ -0,0 +1,57 @@
+import type { GroupMode, ListPreferences, SortKey } from '../types/listPreferences';
+import { GROUP_OPTIONS, SORT_OPTIONS } from '../types/listPreferences';
+
+interface SortControlsProps {
+  preferences: ListPreferences;
+  onChange: (preferences: ListPreferences) => void;
+}
+
+export function SortControls({ preferences, onChange }: SortControlsProps) {
+  const toggleDirection = () => {
+    onChange({
+      ...preferences,
+      sortDirection: preferences.sortDirection === 'asc' ? 'desc' : 'asc'
+    });
+  };
+
+  return (
+    <div className="sort-controls">
+      <label htmlFor="sortKey" className="filter-label">Sort by</label>
+      <select
+        id="sortKey"
+        value={preferences.sortKey}
+        onChange={(e) => onChange({ ...preferences, sortKey: e.target.value as SortKey })}
+        className="filter-select"
+      >
+        {SORT_OPTIONS.map(option => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={toggleDirection}
+        className="btn btn-sm btn-secondary"
+        aria-label={preferences.sortDirection === 'asc' ? 'Sort ascending' : 'Sort descending'}
+        title={preferences.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+      >
+        {preferences.sortDirection === 'asc' ? '↑ Asc' : '↓ Desc'}
+      </button>
+
+      <label htmlFor="groupBy" className="filter-label">Group by</label>
+      <select
+        id="groupBy"
+        value={preferences.groupBy}
+        onChange={(e) => onChange({ ...preferences, groupBy: e.target.value as GroupMode })}
+        className="filter-select"
+      >
+        {GROUP_OPTIONS.map(option => (
+          <option key={option.mode} value={option.mode}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect, useMemo } from 'react';
+import type { Book } from '../types/book';
+import type { BookFilters } from '../types/filters';
+import { EMPTY_FILTERS } from '../types/filters';
+import { getAllBooks } from '../db/indexedDB';
+import { computeStats, type StatDatum } from '../utils/stats';
+import { BarChart } from './BarChart';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+interface StatsDashboardProps {
+  onNavigate: (filters: BookFilters) => void;
+}
+
+export function StatsDashboard({ onNavigate }: StatsDashboardProps) {
+  const [books, setBooks] = useState<Book[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [granularity, setGranularity] = useState<'month' | 'year'>('month');
+  const { languageName, formatName } = useLibraryOptions();
+
+  useEffect(() => {
+    getAllBooks()
+      .then(setBooks)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load books'));
+  }, []);
+
+  const stats = useMemo(() => (books ? computeStats(books) : null), [books]);
+
+  if (error) {
+    return <p className="error-message">{error}</p>;
+  }
+
+  if (!stats) {
+    return <p>Loading...</p>;
+  }
+
+  const goTo = (changes: Partial<BookFilters>) => onNavigate({ ...EMPTY_FILTERS, ...changes });
+  const showPeriod = (datum: StatDatum) => goTo({ status: 'finished', period: datum.key });
+  const formatRating = (datum: StatDatum) => `${datum.value.toFixed(1)} (${datum.count})`;
+
+  const booksOverTime = granularity === 'month' ? stats.booksPerMonth : stats.booksPerYear;
+  const pagesOverTime = granularity === 'month' ? stats.pagesPerMonth : stats.pagesPerYear;
+
+  const toBookData = (list: Book[]): StatDatum[] =>
+    list.map(book => ({ key: book.id, label: book.title, value: book.pages }));
+  const showBook = (list: Book[]) => (datum: StatDatum) => {
+    const book = list.find(b => b.id === datum.key);
+    if (book) goTo({ query: book.title, author: book.author });
+  };
+
+  return (
+    <div className="stats-dashboard">
+      <div className="stats-summary">
+        <div className="stats-summary-item">
+          <span className="stats-summary-value">{stats.finishedCount}</span>
+          <span className="stats-summary-label">Books finished</span>
+        </div>
+        <div className="stats-summary-item">
+          <span className="stats-summary-value">{Math.round(stats.dnfRate * 100)}%</span>
+          <span className="stats-summary-label">Did-not-finish rate</span>
+        </div>
+      </div>
+
+      <div className="stats-granularity">
+        <button
+          type="button"
+          className={`filter-chip ${granularity === 'month' ? 'active' : ''}`}
+          onClick={() => setGranularity('month')}
+        >
+          Last 12 months
+        </button>
+        <button
+          type="button"
+          className={`filter-chip ${granularity === 'year' ? 'active' : ''}`}
+          onClick={() => setGranularity('year')}
+        >
+          By year
+        </button>
+      </div>
+
+      <div className="stats-grid">
+        <section className="stats-card">
+          <h3>Books read</h3>
+          <BarChart data={booksOverTime} onSelect={showPeriod} />
+        </section>
+
+        <section className="stats-card">
+          <h3>Pages read</h3>
+          <BarChart data={pagesOverTime} onSelect={showPeriod} />
+        </section>
+
+        <section className="stats-card">
+          <h3>Average rating by vibe</h3>
+          <BarChart
+            data={stats.ratingByVibe}
+            maxValue={10}
+            formatValue={formatRating}
+            onSelect={datum => goTo({ vibes: [datum.key] })}
+          />
+        </section>
+
+        <section className="stats-card">
+          <h3>Average rating by format</h3>
+          <BarChart
+            data={stats.ratingByFormat.map(datum => ({ ...datum, label: formatName(datum.key) }))}
+            maxValue={10}
+            formatValue={formatRating}
+            onSelect={datum => goTo({ formats: [datum.key] })}
+          />
+        </section>
+
+        <section className="stats-card">
+          <h3>Average rating by language</h3>
+          <BarChart
+            data={stats.ratingByLanguage.map(datum => ({ ...datum, label: languageName(datum.key) }))}
+            maxValue={10}
+            formatValue={formatRating}
+            onSelect={datum => goTo({ languages: [datum.key] })}
+          />
+        </section>
+
+        <section className="stats-card">
+          <h3>Finished vs. did not finish</h3>
+          <BarChart
+            data={[
+              { key: 'finished', label: 'Finished', value: stats.finishedCount },
+              { key: 'did-not-finish', label: 'Did not finish', value: stats.dnfCount }
+            ]}
+            onSelect={datum => goTo({ status: datum.key as Book['status'] })}
+          />
+        </section>
+
+        <section className="stats-card">
+          <h3>Longest books</h3>
+          <BarChart
+            data={toBookData(stats.longestBooks)}
+            formatValue={datum => `${datum.value} p.`}
+            onSelect={showBook(stats.longestBooks)}
+          />
+        </section>
+
+        <section className="stats-card">
+          <h3>Shortest books</h3>
+          <BarChart
+            data={toBookData(stats.shortestBooks)}
+            formatValue={datum => `${datum.value} p.`}
+            onSelect={showBook(stats.shortestBooks)}
+          />
+        </section>
+
+        <section className="stats-card">
+          <h3>Most-read authors</h3>
+          <BarChart
+            data={stats.topAuthors}
+            onSelect={datum => goTo({ author: datum.key, status: 'finished' })}
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
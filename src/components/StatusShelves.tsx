@@ -0,0 +1,38 @@
+import type { Book, ReadingStatus } from '../types/book';
+import { READING_STATUSES } from '../types/book';
+
+interface StatusShelvesProps {
+  books: Book[]; // Books on every shelf, used for the counts
+  selected?: ReadingStatus;
+  onSelect: (status?: ReadingStatus) => void;
+}
+
+export function StatusShelves({ books, selected, onSelect }: StatusShelvesProps) {
+  const countFor = (status: ReadingStatus) => books.filter(book => book.status === status).length;
+
+  return (
+    <div className="status-shelves" role="tablist" aria-label="Reading status shelves">
+      <button
+        type="button"
+        role="tab"
+        aria-selected={!selected}
+        className={`status-shelf-tab ${!selected ? 'active' : ''}`}
+        onClick={() => onSelect(undefined)}
+      >
+        All <span className="status-shelf-count">{books.length}</span>
+      </button>
+      {READING_STATUSES.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          role="tab"
+          aria-selected={selected === option.value}
+          className={`status-shelf-tab ${selected === option.value ? 'active' : ''}`}
+          onClick={() => onSelect(option.value)}
+        >
+          {option.label} <span className="status-shelf-count">{countFor(option.value)}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
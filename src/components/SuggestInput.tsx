@@ -0,0 +1,107 @@
+import { useState, useEffect, useRef } from 'react';
+
+interface SuggestInputProps {
+  id?: string;
+  name?: string;
+  value: string;
+  onChange: (value: string) => void;
+  suggestions: string[];
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Single-value text input with a dropdown of matching suggestions
+ */
+export function SuggestInput({
+  id,
+  name,
+  value,
+  onChange,
+  suggestions,
+  placeholder,
+  className
+}: SuggestInputProps) {
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const query = value.trim().toLowerCase();
+  const filteredSuggestions = suggestions
+    .filter(suggestion => suggestion.toLowerCase().includes(query) && suggestion !== value)
+    .slice(0, 10);
+
+  // Handle clicking outside to close dropdown
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setShowSuggestions(false);
+        setHighlightedIndex(-1);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const selectSuggestion = (suggestion: string) => {
+    onChange(suggestion);
+    setShowSuggestions(false);
+    setHighlightedIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setShowSuggestions(true);
+      setHighlightedIndex(prev => (prev < filteredSuggestions.length - 1 ? prev + 1 : prev));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(prev => (prev > 0 ? prev - 1 : -1));
+    } else if (e.key === 'Enter' && showSuggestions && highlightedIndex >= 0) {
+      e.preventDefault();
+      selectSuggestion(filteredSuggestions[highlightedIndex]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+      setHighlightedIndex(-1);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="tags-input-container suggest-input">
+      <input
+        type="text"
+        id={id}
+        name={name}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setShowSuggestions(true);
+          setHighlightedIndex(-1);
+        }}
+        onFocus={() => setShowSuggestions(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={className}
+        autoComplete="off"
+      />
+      {showSuggestions && filteredSuggestions.length > 0 && (
+        <div className="tags-suggestions-dropdown">
+          {filteredSuggestions.map((suggestion, index) => (
+            <button
+              key={suggestion}
+              type="button"
+              className={`tag-suggestion-item ${index === highlightedIndex ? 'highlighted' : ''}`}
+              onClick={() => selectSuggestion(suggestion)}
+              onMouseEnter={() => setHighlightedIndex(index)}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
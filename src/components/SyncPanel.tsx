@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import type { RevisionField } from '../types/revision';
+import type { ConflictResolution, SyncConflict, SyncResult, SyncSettings } from '../types/sync';
+import { clearSyncState, getSyncSettings, saveSyncSettings } from '../db/indexedDB';
+import { resolveConflict, syncBooks } from '../db/sync';
+import { diffBooks, formatFieldValue, REVISION_FIELD_LABELS } from '../utils/revisions';
+import { useLibraryOptions } from './LibraryOptionsContext';
+
+interface SyncPanelProps {
+  onSynced: () => void; // Called after books were changed by a sync
+}
+
+interface SyncConflictViewProps {
+  conflict: SyncConflict;
+  onResolve: (resolution: ConflictResolution) => void;
+  disabled: boolean;
+}
+
+/**
+ * Both versions of a conflicting book, field by field
+ */
+function SyncConflictView({ conflict, onResolve, disabled }: SyncConflictViewProps) {
+  const { languageName, formatName } = useLibraryOptions();
+  const { local, remote } = conflict;
+  const changes = local && remote ? diffBooks(local, remote) : [];
+
+  const show = (field: RevisionField, value: unknown) =>
+    formatFieldValue(field, value, { languageName, formatName }) ?? <span className="revision-empty">empty</span>;
+
+  return (
+    <li className="sync-conflict">
+      <h4>{local?.title || remote?.title}</h4>
+      {!local || !remote ? (
+        <p className="backup-hint">
+          {local ? 'Deleted on another device, but changed here.' : 'Deleted here, but changed on another device.'}
+        </p>
+      ) : (
+        <table className="import-table sync-conflict-table">
+          <thead>
+            <tr>
+              <th></th>
+              <th>This device</th>
+              <th>Other device</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => (
+              <tr key={change.field}>
+                <th scope="row">{REVISION_FIELD_LABELS[change.field]}</th>
+                <td>{show(change.field, change.oldValue)}</td>
+                <td>{show(change.field, change.newValue)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className="form-actions">
+        <button type="button" onClick={() => onResolve('local')} className="btn btn-sm btn-primary" disabled={disabled}>
+          {local ? 'Keep this version' : 'Keep it deleted'}
+        </button>
+        <button type="button" onClick={() => onResolve('remote')} className="btn btn-sm btn-secondary" disabled={disabled}>
+          {remote ? 'Use the other version' : 'Delete it here too'}
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export function SyncPanel({ onSynced }: SyncPanelProps) {
+  const [settings, setSettings] = useState<SyncSettings | null>(null);
+  const [url, setUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getSyncSettings()
+      .then(loaded => {
+        setSettings(loaded);
+        setUrl(loaded.url);
+        setToken(loaded.token);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load sync settings'));
+  }, []);
+
+  const runSync = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const syncResult = await syncBooks();
+      setResult(syncResult);
+      setConflicts(syncResult.conflicts);
+      setSettings(await getSyncSettings());
+      if (syncResult.pulled > 0) onSynced();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    setError(null);
+    try {
+      const trimmedUrl = url.trim();
+      if (trimmedUrl && !/^https?:\/\//.test(trimmedUrl)) {
+        throw new Error('The server URL must start with http:// or https://');
+      }
+      // Versions and the cursor belong to the old server
+      const serverChanged = trimmedUrl !== settings.url;
+      if (serverChanged) await clearSyncState();
+      setSettings(
+        await saveSyncSettings({
+          ...settings,
+          url: trimmedUrl,
+          token: token.trim(),
+          cursor: serverChanged ? 0 : settings.cursor,
+          lastSyncedAt: serverChanged ? undefined : settings.lastSyncedAt
+        })
+      );
+      setResult(null);
+      setConflicts([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save sync settings');
+    }
+  };
+
+  const handleResolve = async (conflict: SyncConflict, resolution: ConflictResolution) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await resolveConflict(conflict, resolution);
+      if (resolution === 'remote') onSynced();
+      const remaining = conflicts.filter(item => item !== conflict);
+      setConflicts(remaining);
+      setBusy(false);
+      // Upload the kept versions once everything is settled
+      if (remaining.length === 0) await runSync();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+      setBusy(false);
+    }
+  };
+
+  if (!settings) {
+    return error ? <p className="error-message">{error}</p> : <p>Loading...</p>;
+  }
+
+  return (
+    <div className="sync-panel">
+      <section className="backup-section">
+        <h3>Server</h3>
+        <p className="backup-hint">
+          Sync books between devices through a server you run yourself, e.g. <code>npm run sync-server</code>.
+          Progress, covers and goals are not synced.
+        </p>
+        <form onSubmit={handleSave}>
+          <div className="form-group">
+            <label htmlFor="sync-url">Server URL</label>
+            <input
+              id="sync-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="http://localhost:8787"
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="sync-token">Token</label>
+            <input
+              id="sync-token"
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              placeholder="Only if the server requires one"
+              autoComplete="off"
+            />
+          </div>
+          <div className="form-actions">
+            <button type="submit" className="btn btn-secondary">
+              Save
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="backup-section">
+        <h3>Sync</h3>
+        <p className="backup-hint">
+          {settings.lastSyncedAt
+            ? `Last synced ${settings.lastSyncedAt.toLocaleString()}.`
+            : 'This device has not synced yet.'}
+        </p>
+        <button type="button" onClick={runSync} className="btn btn-primary" disabled={busy || !settings.url}>
+          {busy ? 'Syncing...' : 'Sync now'}
+        </button>
+
+        {error && <p className="error-message">{error}</p>}
+        {result && (
+          <p className="backup-result">
+            Received {result.pulled} and sent {result.pushed} {result.pushed === 1 ? 'change' : 'changes'}.
+            {result.conflicts.length > 0 && ` ${result.conflicts.length} ${result.conflicts.length === 1 ? 'book needs' : 'books need'} your decision.`}
+          </p>
+        )}
+
+        {conflicts.length > 0 && (
+          <ul className="sync-conflicts">
+            {conflicts.map(conflict => (
+              <SyncConflictView
+                key={conflict.record.id}
+                conflict={conflict}
+                onResolve={resolution => handleResolve(conflict, resolution)}
+                disabled={busy}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import type { UsedTag, TagStyle } from '../types/backup';
+import { getTagUsage, renameTags, deleteUnusedTags, saveTagStyle } from '../db/indexedDB';
+import { useTagStyles } from './TagStylesContext';
+import { VibeBadge } from './VibeBadge';
+
+interface TagManagerProps {
+  onChanged: () => void; // Called after books were rewritten
+}
+
+const DEFAULT_PICKER_COLOR = '#e5e7eb';
+
+interface TagStyleEditorProps {
+  tag: UsedTag;
+  onSave: (style: TagStyle) => void;
+}
+
+/**
+ * Color and icon inputs for one tag; changes are saved when an input loses focus
+ */
+function TagStyleEditor({ tag, onSave }: TagStyleEditorProps) {
+  const [draft, setDraft] = useState<TagStyle>({ color: tag.color, icon: tag.icon });
+
+  useEffect(() => {
+    setDraft({ color: tag.color, icon: tag.icon });
+  }, [tag.color, tag.icon]);
+
+  const save = () => {
+    if (draft.color !== tag.color || (draft.icon || '') !== (tag.icon || '')) {
+      onSave(draft);
+    }
+  };
+
+  return (
+    <div className="tag-style-editor">
+      <VibeBadge tag={tag.tag} style={draft} />
+      <input
+        type="color"
+        value={draft.color || DEFAULT_PICKER_COLOR}
+        onChange={(e) => setDraft(prev => ({ ...prev, color: e.target.value }))}
+        onBlur={save}
+        aria-label={`Color for ${tag.tag}`}
+      />
+      <input
+        type="text"
+        value={draft.icon || ''}
+        onChange={(e) => setDraft(prev => ({ ...prev, icon: e.target.value }))}
+        onBlur={save}
+        placeholder="🙂"
+        maxLength={4}
+        aria-label={`Icon for ${tag.tag}`}
+      />
+      {(tag.color || tag.icon) && (
+        <button type="button" onClick={() => onSave({})} className="btn btn-sm btn-secondary">
+          Reset
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function TagManager({ onChanged }: TagManagerProps) {
+  const [tags, setTags] = useState<UsedTag[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newName, setNewName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { refresh: refreshStyles } = useTagStyles();
+
+  const loadTags = async () => {
+    try {
+      setTags(await getTagUsage());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load vibes');
+    }
+  };
+
+  useEffect(() => {
+    loadTags();
+  }, []);
+
+  const toggleTag = (tag: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) {
+        next.delete(tag);
+      } else {
+        next.add(tag);
+      }
+      return next;
+    });
+  };
+
+  const run = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await action());
+      setSelected(new Set());
+      await loadTags();
+      refreshStyles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update vibes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = () => {
+    const target = newName.trim();
+    const sources = Array.from(selected);
+    if (!target || sources.length === 0) return;
+
+    const verb = sources.length > 1 ? 'Merge' : 'Rename';
+    if (!window.confirm(`${verb} ${sources.map(tag => `"${tag}"`).join(', ')} into "${target}"?`)) {
+      return;
+    }
+
+    run(async () => {
+      const changedBooks = await renameTags(sources, target);
+      setNewName('');
+      onChanged();
+      return `${verb}d into "${target}" on ${changedBooks} ${changedBooks === 1 ? 'book' : 'books'}.`;
+    });
+  };
+
+  const handleStyleSave = async (tag: string, style: TagStyle) => {
+    setError(null);
+    try {
+      await saveTagStyle(tag, style);
+      await loadTags();
+      refreshStyles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save vibe style');
+    }
+  };
+
+  const handleDelete = (tagsToDelete: string[]) => {
+    run(async () => {
+      const deleted = await deleteUnusedTags(tagsToDelete);
+      return `Deleted ${deleted.length} unused ${deleted.length === 1 ? 'vibe' : 'vibes'}.`;
+    });
+  };
+
+  if (!tags) {
+    return error ? <p className="error-message">{error}</p> : <p>Loading...</p>;
+  }
+
+  if (tags.length === 0) {
+    return (
+      <div className="empty-state">
+        <p className="empty-state-message">No vibes yet.</p>
+        <p className="empty-state-hint">Vibes you add to books will show up here.</p>
+      </div>
+    );
+  }
+
+  const unusedTags = tags.filter(tag => tag.count === 0).map(tag => tag.tag);
+
+  return (
+    <div className="tag-manager">
+      <p className="backup-hint">
+        Select one vibe to rename it, or several to merge them into one. Every book using them is updated.
+      </p>
+
+      <div className="tag-manager-actions">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={selected.size > 0 ? 'New name' : 'Select vibes first'}
+          disabled={selected.size === 0}
+          aria-label="New vibe name"
+        />
+        <button
+          type="button"
+          onClick={handleRename}
+          className="btn btn-sm btn-primary"
+          disabled={busy || selected.size === 0 || !newName.trim()}
+        >
+          {selected.size > 1 ? `Merge ${selected.size} vibes` : 'Rename'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleDelete(unusedTags)}
+          className="btn btn-sm btn-secondary"
+          disabled={busy || unusedTags.length === 0}
+        >
+          Delete all unused ({unusedTags.length})
+        </button>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+      {message && <p className="backup-result">{message}</p>}
+
+      <table className="import-table tag-manager-table">
+        <thead>
+          <tr>
+            <th></th>
+            <th>Vibe</th>
+            <th>Books</th>
+            <th>Style</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {tags.map(tag => (
+            <tr key={tag.tag} className={tag.count === 0 ? 'tag-unused' : ''}>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={selected.has(tag.tag)}
+                  onChange={() => toggleTag(tag.tag)}
+                  aria-label={`Select ${tag.tag}`}
+                />
+              </td>
+              <td>{tag.tag}</td>
+              <td>{tag.count}</td>
+              <td>
+                <TagStyleEditor tag={tag} onSave={style => handleStyleSave(tag.tag, style)} />
+              </td>
+              <td>
+                {tag.count === 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete([tag.tag])}
+                    className="btn btn-sm btn-danger"
+                    disabled={busy}
+                  >
+                    Delete
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
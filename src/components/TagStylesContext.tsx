@@ -0,0 +1,36 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { TagStyle } from '../types/backup';
+import { getTagStyles } from '../db/indexedDB';
+
+interface TagStylesContextValue {
+  styles: Record<string, TagStyle>;
+  refresh: () => void; // Reload after a tag's style was changed
+}
+
+const TagStylesContext = createContext<TagStylesContextValue>({
+  styles: {},
+  refresh: () => {}
+});
+
+/**
+ * Loads tag colors and icons once and shares them with every badge
+ */
+export function TagStylesProvider({ children }: { children: React.ReactNode }) {
+  const [styles, setStyles] = useState<Record<string, TagStyle>>({});
+
+  const refresh = useCallback(() => {
+    getTagStyles()
+      .then(setStyles)
+      .catch(error => console.warn('Failed to load tag styles:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return <TagStylesContext.Provider value={{ styles, refresh }}>{children}</TagStylesContext.Provider>;
+}
+
+export function useTagStyles(): TagStylesContextValue {
+  return useContext(TagStylesContext);
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
 import { PREDEFINED_VIBES } from '../types/book';
+import { getTagAppearance } from '../utils/tagStyles';
+import { useTagStyles } from './TagStylesContext';
+import { VibeBadge } from './VibeBadge';
 
 interface TagsInputProps {
   selectedTags: string[];
@@ -19,11 +22,13 @@ export function TagsInput({
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const { styles } = useTagStyles();
 
-  // Combine predefined and used tags, remove duplicates and already selected tags
+  // Used tags come most used first; predefined ones nobody has used yet go last.
+  // Remove duplicates and already selected tags
   const allSuggestions = [
-    ...PREDEFINED_VIBES,
-    ...usedTags.filter(tag => !PREDEFINED_VIBES.includes(tag as any))
+    ...usedTags,
+    ...PREDEFINED_VIBES.filter(tag => !usedTags.includes(tag))
   ].filter(tag => !selectedTags.includes(tag));
 
   // Filter suggestions based on input
@@ -118,8 +123,7 @@ export function TagsInput({
       <div className="tags-input-wrapper">
         <div className="tags-badges-container">
           {selectedTags.map((tag, index) => (
-            <span key={index} className="tag-badge-input">
-              {tag}
+            <VibeBadge key={index} tag={tag} className="tag-badge-input">
               <button
                 type="button"
                 onClick={() => removeTag(tag)}
@@ -128,7 +132,7 @@ export function TagsInput({
               >
                 ×
               </button>
-            </span>
+            </VibeBadge>
           ))}
         </div>
         <input
@@ -152,6 +156,12 @@ export function TagsInput({
               onClick={() => addTag(tag)}
               onMouseEnter={() => setHighlightedIndex(index)}
             >
+              <span
+                className={`tag-suggestion-swatch ${getTagAppearance(tag, styles[tag]).className}`}
+                style={getTagAppearance(tag, styles[tag]).style}
+              >
+                {styles[tag]?.icon}
+              </span>
               {highlightMatch(tag, inputValue)}
             </button>
           ))}
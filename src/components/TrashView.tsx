@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import type { TrashedBook } from '../types/trash';
+import {
+  getTrashedBooks,
+  restoreBook,
+  purgeBooks,
+  getTrashRetentionDays,
+  saveTrashRetentionDays
+} from '../db/indexedDB';
+
+interface TrashViewProps {
+  onRestored: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function TrashView({ onRestored }: TrashViewProps) {
+  const [books, setBooks] = useState<TrashedBook[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      setBooks(await getTrashedBooks());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load trash');
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+    getTrashRetentionDays()
+      .then(setRetentionDays)
+      .catch(err => console.warn('Failed to load trash retention:', err));
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update trash');
+    }
+  };
+
+  const handleRestore = (id: string) =>
+    run(async () => {
+      await restoreBook(id);
+      onRestored();
+    });
+
+  const handlePurge = (book: TrashedBook) => {
+    if (window.confirm(`Permanently delete "${book.title}"? This cannot be undone.`)) {
+      run(() => purgeBooks([book.id]));
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm('Permanently delete every book in the trash? This cannot be undone.')) {
+      run(() => purgeBooks());
+    }
+  };
+
+  const handleRetentionChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const days = Math.round(Number(e.target.value));
+    if (!(days >= 1)) return;
+    setRetentionDays(days);
+    try {
+      await saveTrashRetentionDays(days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save trash retention');
+    }
+  };
+
+  const daysLeft = (book: TrashedBook): number =>
+    Math.max(0, Math.ceil((book.deletedAt.getTime() + (retentionDays ?? 0) * DAY_MS - Date.now()) / DAY_MS));
+
+  return (
+    <div className="trash-view">
+      <div className="trash-settings">
+        <label className="checkbox-label">
+          Purge deleted books after
+          <input
+            type="number"
+            min="1"
+            value={retentionDays ?? ''}
+            onChange={handleRetentionChange}
+            className="trash-retention-input"
+          />
+          days
+        </label>
+        <button
+          type="button"
+          onClick={handleEmptyTrash}
+          className="btn btn-sm btn-danger"
+          disabled={!books || books.length === 0}
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+
+      {!books ? (
+        <p>Loading...</p>
+      ) : books.length === 0 ? (
+        <div className="empty-state">
+          <p className="empty-state-message">The trash is empty.</p>
+        </div>
+      ) : (
+        <ul className="trash-list">
+          {books.map(book => (
+            <li key={book.id} className="trash-item">
+              <div className="trash-item-info">
+                <span className="trash-item-title">{book.title}</span>
+                <span className="trash-item-meta">
+                  by {book.author} · deleted {book.deletedAt.toLocaleDateString()}
+                  {retentionDays !== null && ` · purged in ${daysLeft(book)} ${daysLeft(book) === 1 ? 'day' : 'days'}`}
+                </span>
+              </div>
+              <button type="button" onClick={() => handleRestore(book.id)} className="btn btn-sm btn-primary">
+                Restore
+              </button>
+              <button type="button" onClick={() => handlePurge(book)} className="btn btn-sm btn-secondary">
+                Delete forever
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
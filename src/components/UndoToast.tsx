@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // Milliseconds before the toast dismisses itself
+}
+
+export function UndoToast({ message, onUndo, onDismiss, duration = 8000 }: UndoToastProps) {
+  useEffect(() => {
+    const timeout = window.setTimeout(onDismiss, duration);
+    return () => window.clearTimeout(timeout);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <div className="undo-toast" role="status">
+      <span>{message}</span>
+      <button type="button" onClick={onUndo} className="btn btn-sm btn-secondary">
+        Undo
+      </button>
+      <button type="button" onClick={onDismiss} className="undo-toast-close" aria-label="Dismiss">
+        ×
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState, useEffect } from 'react';
+import { applyUpdate, fetchDeployedVersion, isSameVersion, registerServiceWorker, RUNNING_VERSION } from '../utils/serviceWorker';
+
+// How often a long-open app checks for a new deploy
+const UPDATE_CHECK_INTERVAL = 30 * 60 * 1000;
+
+/**
+ * Registers the service worker and offers a reload once a newer build is deployed
+ */
+export function UpdateBanner() {
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [available, setAvailable] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let currentRegistration: ServiceWorkerRegistration | null = null;
+
+    const checkForUpdate = async () => {
+      if (!currentRegistration) return;
+      const deployed = await fetchDeployedVersion();
+      if (cancelled || !deployed || isSameVersion(deployed, RUNNING_VERSION)) return;
+      // Start installing the new worker right away, so it is ready when the user agrees
+      await currentRegistration.update().catch(err => console.warn('Failed to update service worker:', err));
+      if (!cancelled) setAvailable(true);
+    };
+
+    registerServiceWorker()
+      .then(result => {
+        if (cancelled) return;
+        currentRegistration = result;
+        setRegistration(result);
+        checkForUpdate();
+      })
+      .catch(err => console.warn('Failed to register service worker:', err));
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') checkForUpdate();
+    };
+    const interval = window.setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  const handleReload = () => {
+    setUpdating(true);
+    applyUpdate(registration).catch(err => {
+      console.warn('Failed to apply update:', err);
+      window.location.reload();
+    });
+  };
+
+  if (!available) {
+    return null;
+  }
+
+  return (
+    <div className="update-banner" role="status">
+      <span>A new version of Book Log is available.</span>
+      <button type="button" onClick={handleReload} className="btn btn-sm btn-primary" disabled={updating}>
+        {updating ? 'Updating...' : 'Reload'}
+      </button>
+      <button type="button" onClick={() => setAvailable(false)} className="btn btn-sm btn-secondary">
+        Later
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { TagStyle } from '../types/backup';
+import { getTagAppearance } from '../utils/tagStyles';
+import { useTagStyles } from './TagStylesContext';
+
+interface VibeBadgeProps {
+  tag: string;
+  style?: TagStyle; // Overrides the saved style, e.g. while editing it
+  className?: string;
+  children?: React.ReactNode; // Extra content after the name, such as a remove button
+}
+
+export function VibeBadge({ tag, style, className = 'vibe-badge', children }: VibeBadgeProps) {
+  const { styles } = useTagStyles();
+  const tagStyle = style || styles[tag];
+  const appearance = getTagAppearance(tag, tagStyle);
+
+  return (
+    <span className={`${className} ${appearance.className}`} style={appearance.style}>
+      {tagStyle?.icon && <span className="vibe-icon">{tagStyle.icon}</span>}
+      {tag}
+      {children}
+    </span>
+  );
+}
@@ -1,9 +1,36 @@
-import type { Book, BookInput } from '../types/book';
+import type { Book, BookInput, LanguageOption, FormatOption } from '../types/book';
+import { DEFAULT_LANGUAGES, DEFAULT_FORMATS, IN_PROGRESS_STATUSES, RATED_STATUSES } from '../types/book';
+import type { ProgressEntry, ProgressEntryInput } from '../types/progress';
+import type { ReadingGoal } from '../types/goal';
+import type { TrashedBook } from '../types/trash';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../types/trash';
+import type { BookRevision } from '../types/revision';
+import type { Shelf } from '../types/shelf';
+import type { ImportedQuote, Quote, QuoteInput } from '../types/quote';
+import type { SyncChange, SyncConflict, SyncRecord, SyncSettings, SyncState } from '../types/sync';
+import { DEFAULT_SYNC_SETTINGS } from '../types/sync';
+import type { LibraryBackup, ImportMode, ImportResult, UsedTag, TagStyle } from '../types/backup';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../types/backup';
+import type { BookFilters } from '../types/filters';
+import { matchesFilters } from '../utils/filters';
+import { blobToDataURL, dataURLToBlob } from '../utils/image';
+import { migrateLanguage, migrateFormat } from '../utils/libraryOptions';
+import { diffBooks } from '../utils/revisions';
+import { quoteKey } from '../utils/quotes';
 
 const DB_NAME = 'BookLogDB';
-const DB_VERSION = 6;
+const DB_VERSION = 20;
 const STORE_NAME = 'books';
 const TAGS_STORE_NAME = 'usedTags';
+const PROGRESS_STORE_NAME = 'progress';
+const GOALS_STORE_NAME = 'goals';
+const COVERS_STORE_NAME = 'covers';
+const SETTINGS_STORE_NAME = 'settings';
+const TRASH_STORE_NAME = 'trash';
+const REVISIONS_STORE_NAME = 'revisions';
+const SYNC_STORE_NAME = 'syncState';
+const SHELVES_STORE_NAME = 'shelves';
+const QUOTES_STORE_NAME = 'quotes';
 
 let dbInstance: IDBDatabase | null = null;
 
@@ -48,6 +75,8 @@ export function initDB(): Promise<IDBDatabase> {
         objectStore.createIndex('format', 'format', { unique: false });
         objectStore.createIndex('rating', 'rating', { unique: false });
         objectStore.createIndex('createdAt', 'createdAt', { unique: false });
+        objectStore.createIndex('finishedAt', 'finishedAt', { unique: false });
+        objectStore.createIndex('series', 'series', { unique: false });
       } else {
         // Upgrade existing store
         const objectStore = transaction!.objectStore(STORE_NAME);
@@ -56,6 +85,27 @@ export function initDB(): Promise<IDBDatabase> {
         if (objectStore.indexNames.contains('vibe')) {
           objectStore.deleteIndex('vibe');
         }
+
+        if (!objectStore.indexNames.contains('finishedAt')) {
+          objectStore.createIndex('finishedAt', 'finishedAt', { unique: false });
+        }
+
+        if (!objectStore.indexNames.contains('series')) {
+          objectStore.createIndex('series', 'series', { unique: false });
+        }
+
+        // Replace the didNotFinish flag with a reading status (v7), and
+        // language and format names with codes (v14)
+        if (event.oldVersion < 14) {
+          const cursorRequest = objectStore.openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+              cursor.update(migrateLanguageAndFormat(migrateStatus(cursor.value)));
+              cursor.continue();
+            }
+          };
+        }
       }
 
       // Create usedTags object store if it doesn't exist
@@ -94,6 +144,104 @@ export function initDB(): Promise<IDBDatabase> {
           };
         }
       }
+
+      // Tag counts used to only ever increase, so recompute them from the books
+      if (event.oldVersion < 13 && db.objectStoreNames.contains(STORE_NAME)) {
+        recountTags(transaction!.objectStore(STORE_NAME), transaction!.objectStore(TAGS_STORE_NAME));
+      }
+
+      // Create progress object store if it doesn't exist
+      if (!db.objectStoreNames.contains(PROGRESS_STORE_NAME)) {
+        const progressStore = db.createObjectStore(PROGRESS_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: false
+        });
+        progressStore.createIndex('bookId', 'bookId', { unique: false });
+      }
+
+      // Create goals object store if it doesn't exist
+      if (!db.objectStoreNames.contains(GOALS_STORE_NAME)) {
+        db.createObjectStore(GOALS_STORE_NAME, {
+          keyPath: 'year',
+          autoIncrement: false
+        });
+      }
+
+      // Create covers object store if it doesn't exist.
+      // Covers live apart from books so getAllBooks doesn't load every image.
+      if (!db.objectStoreNames.contains(COVERS_STORE_NAME)) {
+        db.createObjectStore(COVERS_STORE_NAME, {
+          keyPath: 'bookId',
+          autoIncrement: false
+        });
+      }
+
+      // Create settings object store, seeded with the languages and formats
+      // that used to be built in
+      if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+        const settingsStore = db.createObjectStore(SETTINGS_STORE_NAME, {
+          keyPath: 'key',
+          autoIncrement: false
+        });
+        settingsStore.put({ key: 'languages', value: DEFAULT_LANGUAGES });
+        settingsStore.put({ key: 'formats', value: DEFAULT_FORMATS });
+      }
+
+      // Create trash object store if it doesn't exist
+      if (!db.objectStoreNames.contains(TRASH_STORE_NAME)) {
+        const trashStore = db.createObjectStore(TRASH_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: false
+        });
+        trashStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+      }
+
+      // Create revisions object store if it doesn't exist
+      if (!db.objectStoreNames.contains(REVISIONS_STORE_NAME)) {
+        const revisionsStore = db.createObjectStore(REVISIONS_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: false
+        });
+        revisionsStore.createIndex('bookId', 'bookId', { unique: false });
+      }
+
+      // Create sync state object store if it doesn't exist
+      if (!db.objectStoreNames.contains(SYNC_STORE_NAME)) {
+        db.createObjectStore(SYNC_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: false
+        });
+      }
+
+      // Create shelves object store if it doesn't exist. The multiEntry index
+      // finds every shelf a book is on.
+      if (!db.objectStoreNames.contains(SHELVES_STORE_NAME)) {
+        const shelvesStore = db.createObjectStore(SHELVES_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: false
+        });
+        shelvesStore.createIndex('bookIds', 'bookIds', { unique: false, multiEntry: true });
+      }
+
+      // Create quotes object store if it doesn't exist
+      if (!db.objectStoreNames.contains(QUOTES_STORE_NAME)) {
+        const quotesStore = db.createObjectStore(QUOTES_STORE_NAME, {
+          keyPath: 'id',
+          autoIncrement: false
+        });
+        quotesStore.createIndex('bookId', 'bookId', { unique: false });
+      }
+
+      // Logging a session didn't use to update pagesRead (before v20), so catch up with the log
+      if (event.oldVersion > 0 && event.oldVersion < 20) {
+        const progressStore = transaction!.objectStore(PROGRESS_STORE_NAME);
+        const booksStore = transaction!.objectStore(STORE_NAME);
+        const entriesRequest = progressStore.getAll();
+        entriesRequest.onsuccess = () => {
+          const bookIds = new Set<string>(entriesRequest.result.map((entry: ProgressEntry) => entry.bookId));
+          bookIds.forEach(bookId => updatePagesRead(booksStore, progressStore, bookId, false));
+        };
+      }
       
       console.log('Database initialized');
     };
@@ -117,6 +265,138 @@ function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Derive a reading status from the legacy didNotFinish flag
+ */
+function migrateStatus(book: any): any {
+  const migrated = {
+    ...book,
+    status: book.status || (book.didNotFinish ? 'did-not-finish' : 'finished')
+  };
+  delete migrated.didNotFinish;
+  return migrated;
+}
+
+/**
+ * Map legacy language and format names to codes
+ */
+function migrateLanguageAndFormat(book: any): any {
+  return {
+    ...book,
+    language: migrateLanguage(book.language || ''),
+    format: migrateFormat(book.format || '')
+  };
+}
+
+/**
+ * Normalize a stored book record, migrating legacy fields and reviving dates
+ */
+function normalizeBook(book: any): Book {
+  // Migrate old vibe field to vibes array
+  let vibes: string[] = [];
+  if (book.vibes && Array.isArray(book.vibes)) {
+    vibes = book.vibes;
+  } else if (book.vibe && book.vibe !== 'Ingen vibe') {
+    vibes = [book.vibe];
+  }
+
+  const normalized = {
+    ...migrateLanguageAndFormat(migrateStatus(book)),
+    vibes,
+    pagesRead: book.pagesRead !== undefined ? book.pagesRead : undefined,
+    startedAt: book.startedAt ? new Date(book.startedAt) : undefined,
+    finishedAt: book.finishedAt ? new Date(book.finishedAt) : undefined,
+    createdAt: new Date(book.createdAt),
+    updatedAt: new Date(book.updatedAt)
+  };
+  delete normalized.vibe;
+  return normalized;
+}
+
+function cleanTags(tags: string[] | undefined): string[] {
+  return Array.from(new Set((tags || []).map(tag => tag.trim()).filter(tag => tag.length > 0)));
+}
+
+/**
+ * Adjust usage counts for a book whose vibes changed from previousTags to nextTags.
+ * Counts bottom out at zero; unused tags stay in the store until deleted.
+ */
+function adjustTagCounts(tagsStore: IDBObjectStore, previousTags: string[] | undefined, nextTags: string[] | undefined): void {
+  const previous = cleanTags(previousTags);
+  const next = cleanTags(nextTags);
+  const changes = new Map<string, number>();
+  next.filter(tag => !previous.includes(tag)).forEach(tag => changes.set(tag, 1));
+  previous.filter(tag => !next.includes(tag)).forEach(tag => changes.set(tag, -1));
+
+  changes.forEach((change, tag) => {
+    const getRequest = tagsStore.get(tag);
+    getRequest.onsuccess = () => {
+      const count = getRequest.result ? getRequest.result.count || 0 : 0;
+      tagsStore.put({ ...getRequest.result, tag, count: Math.max(0, count + change) });
+    };
+  });
+}
+
+/**
+ * Bring a book's pages read up to the furthest page of its logged sessions, within
+ * an open transaction. When a session was removed and pages read came from it,
+ * it goes back to where that session started or the furthest remaining one.
+ * Only books in progress or abandoned keep track of pages read.
+ */
+function updatePagesRead(
+  booksStore: IDBObjectStore,
+  progressStore: IDBObjectStore,
+  bookId: string,
+  touch: boolean,
+  removed?: ProgressEntry
+): void {
+  const bookRequest = booksStore.get(bookId);
+  const entriesRequest = progressStore.index('bookId').getAll(bookId);
+
+  entriesRequest.onsuccess = () => {
+    const book = bookRequest.result;
+    if (!book || !IN_PROGRESS_STATUSES.includes(migrateStatus(book).status)) return;
+
+    const ends: number[] = entriesRequest.result.map((entry: ProgressEntry) => entry.endPage);
+    let pagesRead: number;
+    if (removed) {
+      if (book.pagesRead !== removed.endPage) return;
+      pagesRead = Math.max(removed.startPage, ...ends);
+    } else {
+      pagesRead = Math.max(book.pagesRead || 0, ...ends);
+    }
+    if (pagesRead === book.pagesRead) return;
+    // A touched book counts as changed, e.g. for sync
+    booksStore.put({ ...book, pagesRead, ...(touch ? { updatedAt: new Date() } : {}) });
+  };
+}
+
+/**
+ * Recompute every tag's usage count from the books, within an open transaction.
+ * Calls onDone with the resulting tags.
+ */
+function recountTags(booksStore: IDBObjectStore, tagsStore: IDBObjectStore, onDone?: (tags: UsedTag[]) => void): void {
+  const booksRequest = booksStore.getAll();
+  const tagsRequest = tagsStore.getAll();
+
+  tagsRequest.onsuccess = () => {
+    const counts = new Map<string, number>();
+    tagsRequest.result.forEach((item: any) => counts.set(item.tag, 0));
+    booksRequest.result.forEach((rawBook: any) => {
+      cleanTags(normalizeBook(rawBook).vibes).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+    });
+
+    const existing = new Map(tagsRequest.result.map((item: any) => [item.tag, item]));
+    const tags: UsedTag[] = Array.from(counts.entries()).map(([tag, count]) => ({
+      ...existing.get(tag),
+      tag,
+      count
+    }));
+    tags.forEach(usedTag => tagsStore.put(usedTag));
+    onDone?.(tags);
+  };
+}
+
 /**
  * Add a new book to the database
  */
@@ -124,7 +404,7 @@ export function addBook(bookInput: BookInput): Promise<Book> {
   return new Promise(async (resolve, reject) => {
     try {
       const db = await getDB();
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const transaction = db.transaction([STORE_NAME, TAGS_STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
 
       const now = new Date();
@@ -136,21 +416,14 @@ export function addBook(bookInput: BookInput): Promise<Book> {
         updatedAt: now
       };
 
-      const request = store.add(book);
+      store.add(book);
+      adjustTagCounts(transaction.objectStore(TAGS_STORE_NAME), [], book.vibes);
 
-      request.onsuccess = async () => {
-        // Update used tags
-        if (book.vibes && book.vibes.length > 0) {
-          try {
-            await updateUsedTags(book.vibes);
-          } catch (error) {
-            console.warn('Failed to update used tags:', error);
-          }
-        }
+      transaction.oncomplete = () => {
         resolve(book);
       };
 
-      request.onerror = () => {
+      transaction.onerror = () => {
         reject(new Error('Failed to add book'));
       };
     } catch (error) {
@@ -171,24 +444,7 @@ export function getAllBooks(): Promise<Book[]> {
       const request = store.getAll();
 
       request.onsuccess = () => {
-        const books = request.result.map((book: any) => {
-          // Migrate old vibe field to vibes array
-          let vibes: string[] = [];
-          if (book.vibes && Array.isArray(book.vibes)) {
-            vibes = book.vibes;
-          } else if (book.vibe && book.vibe !== 'Ingen vibe') {
-            vibes = [book.vibe];
-          }
-          
-          return {
-            ...book,
-            vibes,
-            didNotFinish: book.didNotFinish !== undefined ? book.didNotFinish : false,
-            pagesRead: book.pagesRead !== undefined ? book.pagesRead : undefined,
-            createdAt: new Date(book.createdAt),
-            updatedAt: new Date(book.updatedAt)
-          };
-        });
+        const books = request.result.map(normalizeBook);
         resolve(books);
       };
 
@@ -201,6 +457,148 @@ export function getAllBooks(): Promise<Book[]> {
   });
 }
 
+/**
+ * Get the books matching the given filters.
+ * The author, format, language or rating index narrows the candidates when one of
+ * those filters is set; the remaining filters are applied to that subset.
+ */
+export function queryBooks(filters: BookFilters): Promise<Book[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+
+      let requests: IDBRequest<any[]>[];
+      if (filters.author) {
+        requests = [store.index('author').getAll(filters.author)];
+      } else if (filters.formats.length > 0) {
+        const index = store.index('format');
+        requests = filters.formats.map(format => index.getAll(format));
+      } else if (filters.languages.length > 0) {
+        const index = store.index('language');
+        requests = filters.languages.map(language => index.getAll(language));
+      } else if (filters.minRating !== undefined || filters.maxRating !== undefined) {
+        const lower = filters.minRating ?? 1;
+        const upper = filters.maxRating ?? 10;
+        if (lower > upper) {
+          resolve([]);
+          return;
+        }
+        requests = [store.index('rating').getAll(IDBKeyRange.bound(lower, upper))];
+      } else {
+        requests = [store.getAll()];
+      }
+
+      transaction.oncomplete = () => {
+        const books = requests
+          .flatMap(request => request.result)
+          .map(normalizeBook)
+          .filter(book => matchesFilters(book, filters));
+        resolve(books);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to query books'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the finished and abandoned books read within the given range (inclusive).
+ * As in the statistics, a book without a finish date counts as read when it was
+ * logged (see getReadDate), so those are looked up by createdAt instead.
+ */
+export function getBooksFinishedBetween(start: Date, end: Date): Promise<Book[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const range = IDBKeyRange.bound(start, end);
+      const finishedRequest = store.index('finishedAt').getAll(range);
+      const undatedRequest = store.index('createdAt').getAll(range);
+
+      transaction.oncomplete = () => {
+        const books: Book[] = [
+          ...finishedRequest.result,
+          ...undatedRequest.result.filter((book: Book) => !book.finishedAt)
+        ].map(normalizeBook);
+        resolve(books.filter(book => RATED_STATUSES.includes(book.status)));
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to get finished books'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the distinct names of every series in the library, sorted
+ */
+export function getAllSeriesNames(): Promise<string[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.index('series').openKeyCursor(null, 'nextunique');
+      const names: string[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          if (typeof cursor.key === 'string' && cursor.key.trim()) {
+            names.push(cursor.key);
+          }
+          cursor.continue();
+        } else {
+          resolve(names.sort((a, b) => a.localeCompare(b)));
+        }
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get series names'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the books in a series, ordered by position
+ */
+export function getBooksInSeries(series: string): Promise<Book[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.index('series').getAll(series);
+
+      request.onsuccess = () => {
+        const books = request.result.map(normalizeBook);
+        // Unnumbered entries go last
+        books.sort((a, b) => (a.seriesPosition ?? Number.MAX_VALUE) - (b.seriesPosition ?? Number.MAX_VALUE));
+        resolve(books);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get books in series'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
 /**
  * Get a book by ID
  */
@@ -215,22 +613,7 @@ export function getBookById(id: string): Promise<Book | null> {
       request.onsuccess = () => {
         const book = request.result;
         if (book) {
-          // Migrate old vibe field to vibes array
-          let vibes: string[] = [];
-          if (book.vibes && Array.isArray(book.vibes)) {
-            vibes = book.vibes;
-          } else if (book.vibe && book.vibe !== 'Ingen vibe') {
-            vibes = [book.vibe];
-          }
-          
-          resolve({
-            ...book,
-            vibes,
-            didNotFinish: book.didNotFinish !== undefined ? book.didNotFinish : false,
-            pagesRead: book.pagesRead !== undefined ? book.pagesRead : undefined,
-            createdAt: new Date(book.createdAt),
-            updatedAt: new Date(book.updatedAt)
-          });
+          resolve(normalizeBook(book));
         } else {
           resolve(null);
         }
@@ -252,7 +635,7 @@ export function updateBook(id: string, updates: Partial<BookInput>): Promise<Boo
   return new Promise(async (resolve, reject) => {
     try {
       const db = await getDB();
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const transaction = db.transaction([STORE_NAME, TAGS_STORE_NAME, REVISIONS_STORE_NAME], 'readwrite');
       const store = transaction.objectStore(STORE_NAME);
       const getRequest = store.get(id);
 
@@ -272,17 +655,22 @@ export function updateBook(id: string, updates: Partial<BookInput>): Promise<Boo
           updatedAt: new Date()
         };
 
+        const previousBook = normalizeBook({ ...existingBook });
         const putRequest = store.put(updatedBook);
+        adjustTagCounts(transaction.objectStore(TAGS_STORE_NAME), previousBook.vibes, updatedBook.vibes);
 
-        putRequest.onsuccess = async () => {
-          // Update used tags
-          if (updatedBook.vibes && updatedBook.vibes.length > 0) {
-            try {
-              await updateUsedTags(updatedBook.vibes);
-            } catch (error) {
-              console.warn('Failed to update used tags:', error);
-            }
-          }
+        const changes = diffBooks(previousBook, updatedBook);
+        if (changes.length > 0) {
+          const revision: BookRevision = {
+            id: generateId(),
+            bookId: id,
+            changes,
+            createdAt: updatedBook.updatedAt
+          };
+          transaction.objectStore(REVISIONS_STORE_NAME).put(revision);
+        }
+
+        putRequest.onsuccess = () => {
           resolve({
             ...updatedBook,
             vibes: updatedBook.vibes || [],
@@ -306,21 +694,57 @@ export function updateBook(id: string, updates: Partial<BookInput>): Promise<Boo
 }
 
 /**
- * Delete a book from the database
+ * Delete every record keyed to a book through a bookId index
+ */
+function deleteByBookId(store: IDBObjectStore, bookId: string): void {
+  const cursorRequest = store.index('bookId').openKeyCursor(IDBKeyRange.only(bookId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+/**
+ * Move a book to the trash. Its progress entries, cover, quotes and edit history
+ * are kept until the book is purged, so restoring it brings everything back.
  */
-export function deleteBook(id: string): Promise<void> {
+export function deleteBook(id: string): Promise<TrashedBook | null> {
   return new Promise(async (resolve, reject) => {
     try {
       const db = await getDB();
-      const transaction = db.transaction([STORE_NAME], 'readwrite');
+      const transaction = db.transaction(
+        [STORE_NAME, TRASH_STORE_NAME, TAGS_STORE_NAME, SYNC_STORE_NAME],
+        'readwrite'
+      );
       const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
+      let trashedBook: TrashedBook | null = null;
 
-      request.onsuccess = () => {
-        resolve();
+      const getRequest = store.get(id);
+      getRequest.onsuccess = () => {
+        if (!getRequest.result) return;
+        const book: TrashedBook = { ...normalizeBook(getRequest.result), deletedAt: new Date() };
+        trashedBook = book;
+        transaction.objectStore(TRASH_STORE_NAME).put(book);
+        adjustTagCounts(transaction.objectStore(TAGS_STORE_NAME), book.vibes, []);
+        store.delete(id);
+
+        // Leave a tombstone so the deletion reaches other devices on the next sync
+        const syncStore = transaction.objectStore(SYNC_STORE_NAME);
+        const stateRequest = syncStore.get(id);
+        stateRequest.onsuccess = () => {
+          const state: SyncState = { version: 0, ...stateRequest.result, id, deletedAt: book.deletedAt };
+          syncStore.put(state);
+        };
       };
 
-      request.onerror = () => {
+      transaction.oncomplete = () => {
+        resolve(trashedBook);
+      };
+
+      transaction.onerror = () => {
         reject(new Error('Failed to delete book'));
       };
     } catch (error) {
@@ -330,28 +754,76 @@ export function deleteBook(id: string): Promise<void> {
 }
 
 /**
- * Get all used tags from the database
+ * Move a book from the trash back into the library
  */
-export function getAllUsedTags(): Promise<string[]> {
+export function restoreBook(id: string): Promise<Book> {
   return new Promise(async (resolve, reject) => {
     try {
       const db = await getDB();
-      if (!db.objectStoreNames.contains(TAGS_STORE_NAME)) {
-        resolve([]);
-        return;
-      }
-      
-      const transaction = db.transaction([TAGS_STORE_NAME], 'readonly');
-      const store = transaction.objectStore(TAGS_STORE_NAME);
+      const transaction = db.transaction(
+        [STORE_NAME, TRASH_STORE_NAME, TAGS_STORE_NAME, SYNC_STORE_NAME],
+        'readwrite'
+      );
+      const trashStore = transaction.objectStore(TRASH_STORE_NAME);
+      let book: Book | null = null;
+
+      const getRequest = trashStore.get(id);
+      getRequest.onsuccess = () => {
+        if (!getRequest.result) return;
+        const { deletedAt, ...restored } = normalizeBook(getRequest.result) as TrashedBook;
+        // A newer updatedAt makes sync upload the book again, replacing its tombstone
+        book = { ...restored, updatedAt: new Date() };
+        transaction.objectStore(STORE_NAME).put(book);
+        adjustTagCounts(transaction.objectStore(TAGS_STORE_NAME), [], book.vibes);
+        trashStore.delete(id);
+
+        const syncStore = transaction.objectStore(SYNC_STORE_NAME);
+        const stateRequest = syncStore.get(id);
+        stateRequest.onsuccess = () => {
+          if (!stateRequest.result) return;
+          const { deletedAt: _tombstone, ...state } = stateRequest.result as SyncState;
+          syncStore.put(state);
+        };
+      };
+
+      transaction.oncomplete = () => {
+        if (book) {
+          resolve(book);
+        } else {
+          reject(new Error('Book not found in trash'));
+        }
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to restore book'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get every book in the trash, most recently deleted first
+ */
+export function getTrashedBooks(): Promise<TrashedBook[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([TRASH_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(TRASH_STORE_NAME);
       const request = store.getAll();
 
       request.onsuccess = () => {
-        const tags = request.result.map((item: any) => item.tag);
-        resolve(tags);
+        const books: TrashedBook[] = request.result.map((book: any) => ({
+          ...normalizeBook(book),
+          deletedAt: new Date(book.deletedAt)
+        }));
+        resolve(books.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
       };
 
       request.onerror = () => {
-        reject(new Error('Failed to get used tags'));
+        reject(new Error('Failed to get trash'));
       };
     } catch (error) {
       reject(error);
@@ -360,56 +832,1607 @@ export function getAllUsedTags(): Promise<string[]> {
 }
 
 /**
- * Update used tags in the database
+ * Permanently delete books from the trash, along with their progress entries,
+ * covers, quotes and edit history, and take them off every shelf. Without ids, the
+ * whole trash is emptied.
  */
-export function updateUsedTags(tags: string[]): Promise<void> {
+export function purgeBooks(ids?: string[]): Promise<void> {
   return new Promise(async (resolve, reject) => {
     try {
       const db = await getDB();
-      if (!db.objectStoreNames.contains(TAGS_STORE_NAME)) {
-        resolve();
-        return;
-      }
-      
-      const transaction = db.transaction([TAGS_STORE_NAME], 'readwrite');
-      const store = transaction.objectStore(TAGS_STORE_NAME);
-      
-      const normalizedTags = tags
-        .map(tag => tag.trim())
-        .filter(tag => tag.length > 0);
-      
-      const updatePromises = normalizedTags.map(tag => {
-        return new Promise<void>((resolveTag, rejectTag) => {
-          const getRequest = store.get(tag);
-          
-          getRequest.onsuccess = () => {
-            if (getRequest.result) {
-              // Tag exists, increment count
-              const updated = {
-                ...getRequest.result,
-                count: (getRequest.result.count || 1) + 1
-              };
-              const putRequest = store.put(updated);
-              putRequest.onsuccess = () => resolveTag();
-              putRequest.onerror = () => rejectTag(new Error(`Failed to update tag: ${tag}`));
-            } else {
-              // New tag, add it
-              const addRequest = store.add({ tag, count: 1 });
-              addRequest.onsuccess = () => resolveTag();
-              addRequest.onerror = () => {
-                // Ignore constraint errors (tag already exists)
-                resolveTag();
-              };
-            }
+      const transaction = db.transaction(
+        [
+          TRASH_STORE_NAME,
+          PROGRESS_STORE_NAME,
+          COVERS_STORE_NAME,
+          REVISIONS_STORE_NAME,
+          SHELVES_STORE_NAME,
+          QUOTES_STORE_NAME
+        ],
+        'readwrite'
+      );
+      const trashStore = transaction.objectStore(TRASH_STORE_NAME);
+      const shelvesStore = transaction.objectStore(SHELVES_STORE_NAME);
+
+      const purge = (bookIds: string[]) => {
+        bookIds.forEach(id => {
+          trashStore.delete(id);
+          deleteByBookId(transaction.objectStore(PROGRESS_STORE_NAME), id);
+          deleteByBookId(transaction.objectStore(REVISIONS_STORE_NAME), id);
+          deleteByBookId(transaction.objectStore(QUOTES_STORE_NAME), id);
+          transaction.objectStore(COVERS_STORE_NAME).delete(id);
+
+          const shelvesRequest = shelvesStore.index('bookIds').getAll(id);
+          shelvesRequest.onsuccess = () => {
+            shelvesRequest.result.forEach((shelf: Shelf) => {
+              shelvesStore.put({ ...shelf, bookIds: shelf.bookIds.filter(bookId => bookId !== id) });
+            });
           };
-          
-          getRequest.onerror = () => rejectTag(new Error(`Failed to get tag: ${tag}`));
         });
-      });
-      
-      Promise.all(updatePromises)
-        .then(() => resolve())
-        .catch(error => reject(error));
+      };
+
+      if (ids) {
+        purge(ids);
+      } else {
+        const keysRequest = trashStore.getAllKeys();
+        keysRequest.onsuccess = () => purge(keysRequest.result as string[]);
+      }
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to purge books'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Purge books that have been in the trash longer than the retention period.
+ * Returns the number of books purged.
+ */
+export async function purgeExpiredTrash(retentionDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const expired = (await getTrashedBooks()).filter(book => book.deletedAt < cutoff);
+  if (expired.length > 0) {
+    await purgeBooks(expired.map(book => book.id));
+  }
+  return expired.length;
+}
+
+/**
+ * Get the cover image of a book
+ */
+export function getCover(bookId: string): Promise<Blob | null> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([COVERS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(COVERS_STORE_NAME);
+      const request = store.get(bookId);
+
+      request.onsuccess = () => {
+        resolve(request.result ? request.result.blob : null);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get cover'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Store or replace the cover image of a book
+ */
+export function saveCover(bookId: string, blob: Blob): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([COVERS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(COVERS_STORE_NAME);
+      const request = store.put({ bookId, blob, updatedAt: new Date() });
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to save cover'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Remove the cover image of a book
+ */
+export function deleteCover(bookId: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([COVERS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(COVERS_STORE_NAME);
+      const request = store.delete(bookId);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to delete cover'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Add a reading session for a book, moving its pages read along
+ */
+export function addProgressEntry(entryInput: ProgressEntryInput): Promise<ProgressEntry> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([PROGRESS_STORE_NAME, STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(PROGRESS_STORE_NAME);
+
+      const entry: ProgressEntry = {
+        ...entryInput,
+        id: generateId(),
+        createdAt: new Date()
+      };
+
+      const request = store.add(entry);
+      request.onsuccess = () => {
+        updatePagesRead(transaction.objectStore(STORE_NAME), store, entry.bookId, true);
+      };
+
+      transaction.oncomplete = () => {
+        resolve(entry);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to add progress entry'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the reading sessions of a book, oldest first
+ */
+export function getProgressEntries(bookId: string): Promise<ProgressEntry[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([PROGRESS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(PROGRESS_STORE_NAME);
+      const request = store.index('bookId').getAll(bookId);
+
+      request.onsuccess = () => {
+        const entries: ProgressEntry[] = request.result.map((entry: any) => ({
+          ...entry,
+          date: new Date(entry.date),
+          createdAt: new Date(entry.createdAt)
+        }));
+        entries.sort((a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+        resolve(entries);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get progress entries'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Delete a single reading session, taking back the pages it added
+ */
+export function deleteProgressEntry(id: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([PROGRESS_STORE_NAME, STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(PROGRESS_STORE_NAME);
+
+      const getRequest = store.get(id);
+      getRequest.onsuccess = () => {
+        const entry: ProgressEntry | undefined = getRequest.result;
+        if (!entry) return;
+        store.delete(id).onsuccess = () => {
+          updatePagesRead(transaction.objectStore(STORE_NAME), store, entry.bookId, true, entry);
+        };
+      };
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to delete progress entry'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the edit history of a book, most recent change first
+ */
+export function getRevisions(bookId: string): Promise<BookRevision[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([REVISIONS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(REVISIONS_STORE_NAME);
+      const request = store.index('bookId').getAll(bookId);
+
+      request.onsuccess = () => {
+        const revisions: BookRevision[] = request.result.map((revision: any) => ({
+          ...revision,
+          createdAt: new Date(revision.createdAt)
+        }));
+        resolve(revisions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get edit history'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Sort tags by usage, most used first
+ */
+function sortByUsage(tags: UsedTag[]): UsedTag[] {
+  return [...tags].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Get all used tags from the database, most used first
+ */
+export function getAllUsedTags(): Promise<string[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      if (!db.objectStoreNames.contains(TAGS_STORE_NAME)) {
+        resolve([]);
+        return;
+      }
+      
+      const transaction = db.transaction([TAGS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(TAGS_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const tags = sortByUsage(
+          request.result.map((item: any) => ({ tag: item.tag, count: item.count || 0 }))
+        );
+        resolve(tags.map(item => item.tag));
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get used tags'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the color and icon of every styled tag
+ */
+export function getTagStyles(): Promise<Record<string, TagStyle>> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([TAGS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(TAGS_STORE_NAME);
+      const request = store.getAll();
+
+      request.onsuccess = () => {
+        const styles: Record<string, TagStyle> = {};
+        request.result.forEach((item: any) => {
+          if (item.color || item.icon) {
+            styles[item.tag] = { color: item.color, icon: item.icon };
+          }
+        });
+        resolve(styles);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get tag styles'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Set the color and icon of a tag, keeping its usage count
+ */
+export function saveTagStyle(tag: string, style: TagStyle): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([TAGS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(TAGS_STORE_NAME);
+      const getRequest = store.get(tag);
+
+      getRequest.onsuccess = () => {
+        store.put({
+          count: 0,
+          ...getRequest.result,
+          tag,
+          color: style.color || undefined,
+          icon: style.icon?.trim() || undefined
+        });
+      };
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to save tag style'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Recompute how many books use each tag, store the counts and return
+ * every tag, most used first
+ */
+export function getTagUsage(): Promise<UsedTag[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME, TAGS_STORE_NAME], 'readwrite');
+      let tags: UsedTag[] = [];
+      recountTags(transaction.objectStore(STORE_NAME), transaction.objectStore(TAGS_STORE_NAME), result => {
+        tags = result;
+      });
+
+      transaction.oncomplete = () => {
+        resolve(sortByUsage(tags));
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to count tags'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Rename tags to a new name, rewriting the vibes of every book that uses them.
+ * Renaming several tags merges them into one. Returns the number of books changed.
+ */
+export function renameTags(fromTags: string[], toTag: string): Promise<number> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const target = toTag.trim();
+      if (!target) {
+        reject(new Error('The new tag name cannot be empty'));
+        return;
+      }
+
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME, TAGS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const tagsStore = transaction.objectStore(TAGS_STORE_NAME);
+      const sources = fromTags.filter(tag => tag !== target);
+      let changedBooks = 0;
+
+      const cursorRequest = store.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          const book = normalizeBook(cursor.value);
+          if (book.vibes.some(vibe => sources.includes(vibe))) {
+            const vibes = Array.from(
+              new Set(book.vibes.map(vibe => (sources.includes(vibe) ? target : vibe)))
+            );
+            cursor.update({ ...book, vibes, updatedAt: new Date() });
+            changedBooks++;
+          }
+          cursor.continue();
+        } else {
+          // All books are rewritten, so the counts can be rebuilt. The target keeps
+          // its own style, or takes the style of the first renamed tag that has one.
+          const tagsRequest = tagsStore.getAll();
+          tagsRequest.onsuccess = () => {
+            const records = new Map(tagsRequest.result.map((item: any) => [item.tag, item]));
+            const styled = [target, ...sources].map(tag => records.get(tag)).find(item => item?.color || item?.icon);
+            sources.forEach(tag => tagsStore.delete(tag));
+            tagsStore.put({ color: styled?.color, icon: styled?.icon, tag: target, count: 0 });
+            recountTags(store, tagsStore);
+          };
+        }
+      };
+
+      transaction.oncomplete = () => {
+        resolve(changedBooks);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to rename tags'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Delete tags that no book uses. Tags still in use are left alone.
+ * Returns the tags that were deleted.
+ */
+export function deleteUnusedTags(tags: string[]): Promise<string[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME, TAGS_STORE_NAME], 'readwrite');
+      const tagsStore = transaction.objectStore(TAGS_STORE_NAME);
+      let deleted: string[] = [];
+
+      const booksRequest = transaction.objectStore(STORE_NAME).getAll();
+      booksRequest.onsuccess = () => {
+        const inUse = new Set(booksRequest.result.flatMap((book: any) => normalizeBook(book).vibes));
+        deleted = tags.filter(tag => !inUse.has(tag));
+        deleted.forEach(tag => tagsStore.delete(tag));
+      };
+
+      transaction.oncomplete = () => {
+        resolve(deleted);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to delete tags'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Export every book and used tag into a backup object
+ */
+export function exportLibrary(options: { includeCovers?: boolean } = {}): Promise<LibraryBackup> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const storeNames = [
+        STORE_NAME,
+        TAGS_STORE_NAME,
+        PROGRESS_STORE_NAME,
+        GOALS_STORE_NAME,
+        SETTINGS_STORE_NAME,
+        SHELVES_STORE_NAME,
+        QUOTES_STORE_NAME
+      ];
+      if (options.includeCovers) {
+        storeNames.push(COVERS_STORE_NAME);
+      }
+      const transaction = db.transaction(storeNames, 'readonly');
+      const booksRequest = transaction.objectStore(STORE_NAME).getAll();
+      const tagsRequest = transaction.objectStore(TAGS_STORE_NAME).getAll();
+      const progressRequest = transaction.objectStore(PROGRESS_STORE_NAME).getAll();
+      const goalsRequest = transaction.objectStore(GOALS_STORE_NAME).getAll();
+      const languagesRequest = transaction.objectStore(SETTINGS_STORE_NAME).get('languages');
+      const formatsRequest = transaction.objectStore(SETTINGS_STORE_NAME).get('formats');
+      const shelvesRequest = transaction.objectStore(SHELVES_STORE_NAME).getAll();
+      const quotesRequest = transaction.objectStore(QUOTES_STORE_NAME).getAll();
+      const coversRequest = options.includeCovers
+        ? transaction.objectStore(COVERS_STORE_NAME).getAll()
+        : null;
+
+      transaction.oncomplete = async () => {
+        try {
+          // Blobs can't be serialized to JSON, so encode covers once the transaction is done
+          const covers = coversRequest
+            ? await Promise.all(
+                coversRequest.result.map(async (cover: any) => ({
+                  bookId: cover.bookId,
+                  dataURL: await blobToDataURL(cover.blob)
+                }))
+              )
+            : undefined;
+
+          resolve({
+            format: BACKUP_FORMAT,
+            version: BACKUP_VERSION,
+            exportedAt: new Date().toISOString(),
+            books: booksRequest.result.map(normalizeBook),
+            usedTags: tagsRequest.result.map((item: any) => ({
+              tag: item.tag,
+              count: item.count || 0,
+              color: item.color,
+              icon: item.icon
+            })),
+            progress: progressRequest.result,
+            goals: goalsRequest.result,
+            languages: languagesRequest.result ? languagesRequest.result.value : DEFAULT_LANGUAGES,
+            formats: formatsRequest.result ? formatsRequest.result.value : DEFAULT_FORMATS,
+            shelves: shelvesRequest.result,
+            quotes: quotesRequest.result,
+            covers
+          });
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to export library'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Import a backup into the database.
+ * In merge mode, conflicting books keep whichever copy was updated most recently.
+ * In replace mode, the existing library is cleared first and removed books get
+ * sync tombstones. Covers are only cleared if the backup contains covers;
+ * otherwise covers of books that are not in the backup are removed.
+ */
+export function importLibrary(backup: LibraryBackup, mode: ImportMode): Promise<ImportResult> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      // Decode covers up front, as a transaction closes while awaiting
+      const covers = new Map(
+        (backup.covers || []).map(cover => [
+          cover.bookId,
+          { bookId: cover.bookId, blob: dataURLToBlob(cover.dataURL), updatedAt: new Date() }
+        ])
+      );
+
+      const db = await getDB();
+      const transaction = db.transaction(
+        [
+          STORE_NAME,
+          TAGS_STORE_NAME,
+          PROGRESS_STORE_NAME,
+          GOALS_STORE_NAME,
+          COVERS_STORE_NAME,
+          SETTINGS_STORE_NAME,
+          REVISIONS_STORE_NAME,
+          SHELVES_STORE_NAME,
+          QUOTES_STORE_NAME,
+          SYNC_STORE_NAME
+        ],
+        'readwrite'
+      );
+      const store = transaction.objectStore(STORE_NAME);
+      const tagsStore = transaction.objectStore(TAGS_STORE_NAME);
+      const progressStore = transaction.objectStore(PROGRESS_STORE_NAME);
+      const goalsStore = transaction.objectStore(GOALS_STORE_NAME);
+      const coversStore = transaction.objectStore(COVERS_STORE_NAME);
+      const result: ImportResult = { added: 0, updated: 0, skipped: 0 };
+
+      transaction.oncomplete = () => {
+        // Imported books change which tags are in use
+        getTagUsage()
+          .then(() => resolve(result))
+          .catch(reject);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to import backup'));
+      };
+
+      if (mode === 'replace') {
+        const bookIds = new Set(backup.books.map(book => book.id));
+        const syncStore = transaction.objectStore(SYNC_STORE_NAME);
+        const deletedAt = new Date();
+
+        // Leave tombstones for books that are not in the backup, like deleteBook does,
+        // so that sync deletes them on other devices instead of bringing them back
+        const existingRequest = store.getAllKeys();
+        existingRequest.onsuccess = () => {
+          existingRequest.result
+            .filter(key => !bookIds.has(key as string))
+            .forEach(key => {
+              const stateRequest = syncStore.get(key);
+              stateRequest.onsuccess = () => {
+                const state: SyncState = { version: 0, ...stateRequest.result, id: key as string, deletedAt };
+                syncStore.put(state);
+              };
+            });
+        };
+
+        // Imported books count as changed, so the next sync pushes them
+        // rather than keeping the server's copy
+        bookIds.forEach(id => {
+          const stateRequest = syncStore.get(id);
+          stateRequest.onsuccess = () => {
+            if (!stateRequest.result) return;
+            const { syncedAt: _syncedAt, deletedAt: _tombstone, ...state } = stateRequest.result as SyncState;
+            syncStore.put(state);
+          };
+        });
+
+        store.clear();
+        tagsStore.clear();
+        progressStore.clear();
+        goalsStore.clear();
+        // Edit history describes books that are being replaced
+        transaction.objectStore(REVISIONS_STORE_NAME).clear();
+
+        if (backup.covers) {
+          coversStore.clear();
+        } else {
+          const keysRequest = coversStore.getAllKeys();
+          keysRequest.onsuccess = () => {
+            keysRequest.result
+              .filter(key => !bookIds.has(key as string))
+              .forEach(key => coversStore.delete(key));
+          };
+        }
+      }
+
+      // A cover in the backup replaces the existing one, unless the book itself was skipped
+      const putBook = (book: Book) => {
+        store.put(book);
+        const cover = covers.get(book.id);
+        if (cover) coversStore.put(cover);
+      };
+
+      backup.books.forEach(rawBook => {
+        // Run the same migration as getAllBooks
+        const book = normalizeBook(rawBook);
+
+        if (mode === 'replace') {
+          putBook(book);
+          result.added++;
+          return;
+        }
+
+        const getRequest = store.get(book.id);
+        getRequest.onsuccess = () => {
+          if (!getRequest.result) {
+            putBook(book);
+            result.added++;
+          } else if (normalizeBook(getRequest.result).updatedAt < book.updatedAt) {
+            putBook(book);
+            result.updated++;
+          } else {
+            result.skipped++;
+          }
+        };
+      });
+
+      // Tag counts are recomputed once the import completes
+      backup.usedTags.forEach((usedTag: UsedTag) => {
+        if (mode === 'replace') {
+          tagsStore.put(usedTag);
+        } else {
+          tagsStore.add(usedTag).onerror = (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+          };
+        }
+      });
+
+      // Progress entries are never edited, so existing ones are kept as-is
+      backup.progress.forEach(entry => {
+        const progressEntry = {
+          ...entry,
+          date: new Date(entry.date),
+          createdAt: new Date(entry.createdAt || entry.date)
+        };
+        if (mode === 'replace') {
+          progressStore.put(progressEntry);
+        } else {
+          progressStore.add(progressEntry).onerror = (event) => {
+            // Ignore constraint errors (entry already exists) without aborting the import
+            event.preventDefault();
+            event.stopPropagation();
+          };
+        }
+      });
+
+      // Goals already set in this browser win when merging
+      backup.goals.forEach(goal => {
+        if (mode === 'replace') {
+          goalsStore.put(goal);
+        } else {
+          goalsStore.add(goal).onerror = (event) => {
+            event.preventDefault();
+            event.stopPropagation();
+          };
+        }
+      });
+
+      // Languages and formats are combined; existing ones keep their names when merging
+      const mergeSetting = <T>(key: string, options: T[] | undefined, getId: (option: T) => string) => {
+        if (!options) return;
+        const settingsStore = transaction.objectStore(SETTINGS_STORE_NAME);
+        const getRequest = settingsStore.get(key);
+        getRequest.onsuccess = () => {
+          const existing: T[] = mode === 'merge' && getRequest.result ? getRequest.result.value : [];
+          const ids = new Set(existing.map(getId));
+          settingsStore.put({ key, value: [...existing, ...options.filter(option => !ids.has(getId(option)))] });
+        };
+      };
+      mergeSetting('languages', backup.languages, (option: LanguageOption) => option.code);
+      mergeSetting('formats', backup.formats, (option: FormatOption) => option.id);
+
+      // Shelves only exist in backups made once they were added. When merging,
+      // books from the backup are appended to a shelf that already exists.
+      if (backup.shelves) {
+        const shelvesStore = transaction.objectStore(SHELVES_STORE_NAME);
+        if (mode === 'replace') {
+          shelvesStore.clear();
+        }
+        backup.shelves.forEach(shelf => {
+          if (mode === 'replace') {
+            shelvesStore.put(shelf);
+            return;
+          }
+          const getRequest = shelvesStore.get(shelf.id);
+          getRequest.onsuccess = () => {
+            const existing: Shelf | undefined = getRequest.result;
+            if (!existing) {
+              shelvesStore.put(shelf);
+              return;
+            }
+            const bookIds = [...existing.bookIds, ...shelf.bookIds.filter(id => !existing.bookIds.includes(id))];
+            shelvesStore.put({ ...existing, bookIds });
+          };
+        });
+      }
+
+      // Quotes are handled like progress entries; existing ones are kept when merging
+      if (backup.quotes) {
+        const quotesStore = transaction.objectStore(QUOTES_STORE_NAME);
+        if (mode === 'replace') {
+          quotesStore.clear();
+        }
+        backup.quotes.forEach(quote => {
+          if (mode === 'replace') {
+            quotesStore.put(quote);
+          } else {
+            quotesStore.add(quote).onerror = (event) => {
+              event.preventDefault();
+              event.stopPropagation();
+            };
+          }
+        });
+      }
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the reading goal for a year
+ */
+export function getGoal(year: number): Promise<ReadingGoal | null> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([GOALS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(GOALS_STORE_NAME);
+      const request = store.get(year);
+
+      request.onsuccess = () => {
+        resolve(request.result || null);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get goal'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Create or replace the reading goal for a year
+ */
+export function saveGoal(goal: ReadingGoal): Promise<ReadingGoal> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([GOALS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(GOALS_STORE_NAME);
+      const request = store.put(goal);
+
+      request.onsuccess = () => {
+        resolve(goal);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to save goal'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Remove the reading goal for a year
+ */
+export function deleteGoal(year: number): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([GOALS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(GOALS_STORE_NAME);
+      const request = store.delete(year);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to delete goal'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get every shelf, oldest first
+ */
+export function getShelves(): Promise<Shelf[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SHELVES_STORE_NAME], 'readonly');
+      const request = transaction.objectStore(SHELVES_STORE_NAME).getAll();
+
+      request.onsuccess = () => {
+        const shelves: Shelf[] = request.result.map((shelf: any) => ({
+          ...shelf,
+          createdAt: new Date(shelf.createdAt),
+          updatedAt: new Date(shelf.updatedAt)
+        }));
+        resolve(shelves.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get shelves'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Create an empty shelf. Shelf names are unique, ignoring case.
+ */
+export function addShelf(name: string): Promise<Shelf> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const trimmed = name.trim();
+      if (!trimmed) {
+        reject(new Error('Shelf name is required'));
+        return;
+      }
+
+      const db = await getDB();
+      const transaction = db.transaction([SHELVES_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SHELVES_STORE_NAME);
+      const now = new Date();
+      const shelf: Shelf = { id: generateId(), name: trimmed, bookIds: [], createdAt: now, updatedAt: now };
+      let duplicate = false;
+
+      const getAllRequest = store.getAll();
+      getAllRequest.onsuccess = () => {
+        duplicate = getAllRequest.result.some((item: Shelf) => item.name.toLowerCase() === trimmed.toLowerCase());
+        if (!duplicate) store.add(shelf);
+      };
+
+      transaction.oncomplete = () => {
+        if (duplicate) {
+          reject(new Error(`A shelf named "${trimmed}" already exists`));
+        } else {
+          resolve(shelf);
+        }
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to add shelf'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Read a shelf, change it and write it back in one transaction.
+ * Like addShelf, a name another shelf already has is rejected.
+ */
+function updateShelf(id: string, change: (shelf: Shelf) => Partial<Shelf>): Promise<Shelf> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SHELVES_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SHELVES_STORE_NAME);
+      let updated: Shelf | null = null;
+      let duplicate = false;
+
+      const getAllRequest = store.getAll();
+      getAllRequest.onsuccess = () => {
+        const shelves: Shelf[] = getAllRequest.result;
+        const shelf = shelves.find(item => item.id === id);
+        if (!shelf) return;
+        updated = { ...shelf, ...change(shelf), id, updatedAt: new Date() };
+        const name = updated.name.toLowerCase();
+        duplicate = shelves.some(item => item.id !== id && item.name.toLowerCase() === name);
+        if (!duplicate) store.put(updated);
+      };
+
+      transaction.oncomplete = () => {
+        if (duplicate) {
+          reject(new Error(`A shelf named "${updated!.name}" already exists`));
+        } else if (updated) {
+          resolve(updated);
+        } else {
+          reject(new Error('Shelf not found'));
+        }
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to update shelf'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+export function renameShelf(id: string, name: string): Promise<Shelf> {
+  if (!name.trim()) {
+    return Promise.reject(new Error('Shelf name is required'));
+  }
+  return updateShelf(id, () => ({ name: name.trim() }));
+}
+
+/**
+ * Put a book on a shelf, at the end, or take it off
+ */
+export function setBookOnShelf(shelfId: string, bookId: string, onShelf: boolean): Promise<Shelf> {
+  return updateShelf(shelfId, shelf => {
+    const bookIds = shelf.bookIds.filter(id => id !== bookId);
+    return { bookIds: onShelf ? [...bookIds, bookId] : bookIds };
+  });
+}
+
+/**
+ * Save a new order of the books on a shelf
+ */
+export function reorderShelf(shelfId: string, bookIds: string[]): Promise<Shelf> {
+  return updateShelf(shelfId, () => ({ bookIds }));
+}
+
+/**
+ * Delete a shelf. The books on it are not affected.
+ */
+export function deleteShelf(id: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SHELVES_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(SHELVES_STORE_NAME).delete(id);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to delete shelf'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function normalizeQuote(quote: any): Quote {
+  return {
+    ...quote,
+    tags: quote.tags || [],
+    createdAt: new Date(quote.createdAt),
+    updatedAt: new Date(quote.updatedAt)
+  };
+}
+
+/**
+ * Save a new quote
+ */
+export function addQuote(quoteInput: QuoteInput): Promise<Quote> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([QUOTES_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(QUOTES_STORE_NAME);
+
+      const now = new Date();
+      const quote: Quote = {
+        ...quoteInput,
+        tags: cleanTags(quoteInput.tags),
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const request = store.add(quote);
+
+      request.onsuccess = () => {
+        resolve(quote);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to add quote'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Update an existing quote
+ */
+export function updateQuote(id: string, updates: Partial<QuoteInput>): Promise<Quote> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([QUOTES_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(QUOTES_STORE_NAME);
+      let updated: Quote | null = null;
+
+      const getRequest = store.get(id);
+      getRequest.onsuccess = () => {
+        if (!getRequest.result) return;
+        const existing = normalizeQuote(getRequest.result);
+        updated = {
+          ...existing,
+          ...updates,
+          tags: updates.tags !== undefined ? cleanTags(updates.tags) : existing.tags,
+          id,
+          updatedAt: new Date()
+        };
+        store.put(updated);
+      };
+
+      transaction.oncomplete = () => {
+        if (updated) {
+          resolve(updated);
+        } else {
+          reject(new Error('Quote not found'));
+        }
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to update quote'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Delete a quote
+ */
+export function deleteQuote(id: string): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([QUOTES_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(QUOTES_STORE_NAME).delete(id);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to delete quote'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the quotes of a book, ordered by where they appear in it
+ */
+export function getQuotesForBook(bookId: string): Promise<Quote[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([QUOTES_STORE_NAME], 'readonly');
+      const request = transaction.objectStore(QUOTES_STORE_NAME).index('bookId').getAll(bookId);
+
+      request.onsuccess = () => {
+        const quotes: Quote[] = request.result.map(normalizeQuote);
+        quotes.sort(
+          (a, b) =>
+            (a.page ?? Infinity) - (b.page ?? Infinity) || a.createdAt.getTime() - b.createdAt.getTime()
+        );
+        resolve(quotes);
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to get quotes'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get every quote, newest first. Quotes of books in the trash are left out.
+ */
+export function getAllQuotes(): Promise<Quote[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([QUOTES_STORE_NAME, STORE_NAME], 'readonly');
+      const quotesRequest = transaction.objectStore(QUOTES_STORE_NAME).getAll();
+      const bookIdsRequest = transaction.objectStore(STORE_NAME).getAllKeys();
+
+      transaction.oncomplete = () => {
+        const bookIds = new Set(bookIdsRequest.result);
+        const quotes: Quote[] = quotesRequest.result
+          .filter((quote: any) => bookIds.has(quote.bookId))
+          .map(normalizeQuote);
+        resolve(quotes.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to get quotes'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Add imported quotes to a book, skipping any it already has. Resolves to the
+ * number of quotes added.
+ */
+export function importQuotes(bookId: string, imported: ImportedQuote[]): Promise<number> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([QUOTES_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(QUOTES_STORE_NAME);
+      let added = 0;
+
+      const existingRequest = store.index('bookId').getAll(bookId);
+      existingRequest.onsuccess = () => {
+        const keys = new Set(existingRequest.result.map((quote: Quote) => quoteKey(quote.text)));
+        const now = new Date();
+
+        for (const { createdAt, ...quoteInput } of imported) {
+          const key = quoteKey(quoteInput.text);
+          if (!key || keys.has(key)) continue;
+          keys.add(key);
+          store.add({
+            ...quoteInput,
+            bookId,
+            tags: cleanTags(quoteInput.tags),
+            id: generateId(),
+            createdAt: createdAt || now,
+            updatedAt: now
+          });
+          added++;
+        }
+      };
+
+      transaction.oncomplete = () => {
+        resolve(added);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to import quotes'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Read a value from the settings store
+ */
+function getSetting<T>(key: string, fallback: T): Promise<T> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SETTINGS_STORE_NAME], 'readonly');
+      const store = transaction.objectStore(SETTINGS_STORE_NAME);
+      const request = store.get(key);
+
+      request.onsuccess = () => {
+        resolve(request.result ? request.result.value : fallback);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get setting: ${key}`));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Write a value to the settings store
+ */
+function saveSetting<T>(key: string, value: T): Promise<T> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SETTINGS_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SETTINGS_STORE_NAME);
+      const request = store.put({ key, value });
+
+      request.onsuccess = () => {
+        resolve(value);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to save setting: ${key}`));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the configured languages, in display order
+ */
+export function getLanguages(): Promise<LanguageOption[]> {
+  return getSetting('languages', DEFAULT_LANGUAGES);
+}
+
+/**
+ * Replace the configured languages
+ */
+export function saveLanguages(languages: LanguageOption[]): Promise<LanguageOption[]> {
+  return saveSetting('languages', languages);
+}
+
+/**
+ * Get the configured formats, in display order
+ */
+export function getFormats(): Promise<FormatOption[]> {
+  return getSetting('formats', DEFAULT_FORMATS);
+}
+
+/**
+ * Replace the configured formats
+ */
+export function saveFormats(formats: FormatOption[]): Promise<FormatOption[]> {
+  return saveSetting('formats', formats);
+}
+
+/**
+ * Count the books with the given language or format
+ */
+export function countBooksWith(field: 'language' | 'format', value: string): Promise<number> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME], 'readonly');
+      const index = transaction.objectStore(STORE_NAME).index(field);
+      const request = index.count(IDBKeyRange.only(value));
+
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`Failed to count books by ${field}`));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Get the number of days deleted books stay in the trash
+ */
+export function getTrashRetentionDays(): Promise<number> {
+  return getSetting('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS);
+}
+
+/**
+ * Set the number of days deleted books stay in the trash
+ */
+export function saveTrashRetentionDays(days: number): Promise<number> {
+  return saveSetting('trashRetentionDays', days);
+}
+
+/**
+ * Get the sync server settings
+ */
+export function getSyncSettings(): Promise<SyncSettings> {
+  return getSetting('sync', DEFAULT_SYNC_SETTINGS);
+}
+
+/**
+ * Save the sync server settings
+ */
+export function saveSyncSettings(settings: SyncSettings): Promise<SyncSettings> {
+  return saveSetting('sync', settings);
+}
+
+/**
+ * Forget what is known about the server copies of books, e.g. when switching to
+ * another server. Every book is uploaded again on the next sync.
+ */
+export function clearSyncState(): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SYNC_STORE_NAME], 'readwrite');
+      const request = transaction.objectStore(SYNC_STORE_NAME).clear();
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        reject(new Error('Failed to clear sync state'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+function hasLocalChanges(book: Book | null, state: SyncState | undefined): boolean {
+  if (state?.deletedAt) {
+    return !state.syncedAt || state.deletedAt.getTime() > state.syncedAt.getTime();
+  }
+  return !!book && (!state?.syncedAt || book.updatedAt.getTime() > state.syncedAt.getTime());
+}
+
+/**
+ * Collect the changes made on this device since the last sync: books updated
+ * after they were last synced, and tombstones of books the server knows about
+ */
+export function getLocalChanges(): Promise<SyncChange[]> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([STORE_NAME, SYNC_STORE_NAME], 'readonly');
+      const booksRequest = transaction.objectStore(STORE_NAME).getAll();
+      const statesRequest = transaction.objectStore(SYNC_STORE_NAME).getAll();
+
+      transaction.oncomplete = () => {
+        const states = new Map<string, SyncState>(statesRequest.result.map((state: SyncState) => [state.id, state]));
+        const changes: SyncChange[] = booksRequest.result
+          .map(normalizeBook)
+          .filter(book => hasLocalChanges(book, states.get(book.id)))
+          .map(book => ({
+            id: book.id,
+            baseVersion: states.get(book.id)?.version || 0,
+            updatedAt: book.updatedAt,
+            deleted: false,
+            book
+          }));
+
+        states.forEach(state => {
+          if (state.deletedAt && state.version > 0 && hasLocalChanges(null, state)) {
+            changes.push({ id: state.id, baseVersion: state.version, updatedAt: state.deletedAt, deleted: true });
+          }
+        });
+        resolve(changes);
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to collect local changes'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Record the server versions of changes the server accepted
+ */
+export function markChangesSynced(changes: SyncChange[], accepted: { id: string; version: number }[]): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SYNC_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SYNC_STORE_NAME);
+      const changesById = new Map(changes.map(change => [change.id, change]));
+
+      accepted.forEach(({ id, version }) => {
+        const change = changesById.get(id);
+        if (!change) return;
+        const stateRequest = store.get(id);
+        stateRequest.onsuccess = () => {
+          const state: SyncState = { ...stateRequest.result, id, version, syncedAt: change.updatedAt };
+          store.put(state);
+        };
+      });
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to save sync state'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Apply books pulled from the sync server. Records for books that also changed
+ * on this device are returned as conflicts instead, unless both sides are
+ * identical. With force, every record is applied, e.g. to resolve a conflict.
+ */
+export function applyRemoteRecords(
+  records: SyncRecord[],
+  force = false
+): Promise<{ applied: number; conflicts: SyncConflict[] }> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction(
+        [STORE_NAME, TRASH_STORE_NAME, TAGS_STORE_NAME, REVISIONS_STORE_NAME, SYNC_STORE_NAME],
+        'readwrite'
+      );
+      const store = transaction.objectStore(STORE_NAME);
+      const trashStore = transaction.objectStore(TRASH_STORE_NAME);
+      const tagsStore = transaction.objectStore(TAGS_STORE_NAME);
+      const syncStore = transaction.objectStore(SYNC_STORE_NAME);
+      const conflicts: SyncConflict[] = [];
+      let applied = 0;
+
+      const apply = (record: SyncRecord, localBook: Book | null, trashed: boolean) => {
+        const updatedAt = new Date(record.updatedAt);
+        applied++;
+
+        if (record.deleted) {
+          if (localBook) {
+            trashStore.put({ ...localBook, deletedAt: updatedAt });
+            adjustTagCounts(tagsStore, localBook.vibes, []);
+            store.delete(record.id);
+          }
+          syncStore.put({ id: record.id, version: record.version, syncedAt: updatedAt, deletedAt: updatedAt });
+          return;
+        }
+
+        const remoteBook = normalizeBook(record.book);
+        store.put(remoteBook);
+        adjustTagCounts(tagsStore, localBook?.vibes, remoteBook.vibes);
+        if (trashed) trashStore.delete(record.id);
+
+        // Changes from other devices show up in the edit history like local ones
+        const changes = localBook ? diffBooks(localBook, remoteBook) : [];
+        if (changes.length > 0) {
+          const revision: BookRevision = { id: generateId(), bookId: record.id, changes, createdAt: new Date() };
+          transaction.objectStore(REVISIONS_STORE_NAME).put(revision);
+        }
+        syncStore.put({ id: record.id, version: record.version, syncedAt: remoteBook.updatedAt });
+      };
+
+      records.forEach(record => {
+        const stateRequest = syncStore.get(record.id);
+        stateRequest.onsuccess = () => {
+          const state: SyncState | undefined = stateRequest.result;
+          // Already seen, e.g. a change this device pushed itself
+          if (!force && state && state.version >= record.version) return;
+
+          const bookRequest = store.get(record.id);
+          bookRequest.onsuccess = () => {
+            const localBook = bookRequest.result ? normalizeBook(bookRequest.result) : null;
+            const trashRequest = trashStore.getKey(record.id);
+            trashRequest.onsuccess = () => {
+              const trashed = trashRequest.result !== undefined;
+              if (!force && hasLocalChanges(localBook, state)) {
+                const identical = record.deleted
+                  ? !localBook
+                  : !!localBook && !!record.book && diffBooks(localBook, normalizeBook(record.book)).length === 0;
+                if (!identical) {
+                  conflicts.push({
+                    local: localBook,
+                    remote: record.deleted ? null : normalizeBook(record.book),
+                    record
+                  });
+                  return;
+                }
+              }
+              apply(record, localBook, trashed);
+            };
+          };
+        };
+      });
+
+      transaction.oncomplete = () => {
+        resolve({ applied, conflicts });
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to apply synced books'));
+      };
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Keep this device's version of a conflicting book. It is rebased on the
+ * server version, so the next sync overwrites the server copy.
+ */
+export function keepLocalVersion(record: SyncRecord): Promise<void> {
+  return new Promise(async (resolve, reject) => {
+    try {
+      const db = await getDB();
+      const transaction = db.transaction([SYNC_STORE_NAME], 'readwrite');
+      const store = transaction.objectStore(SYNC_STORE_NAME);
+
+      const stateRequest = store.get(record.id);
+      stateRequest.onsuccess = () => {
+        const state: SyncState = { ...stateRequest.result, id: record.id, version: record.version };
+        store.put(state);
+      };
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(new Error('Failed to keep local version'));
+      };
     } catch (error) {
       reject(error);
     }
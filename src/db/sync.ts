@@ -0,0 +1,81 @@
+import type { ConflictResolution, PullResponse, PushResponse, SyncConflict, SyncResult, SyncSettings } from '../types/sync';
+import {
+  applyRemoteRecords,
+  getLocalChanges,
+  getSyncSettings,
+  keepLocalVersion,
+  markChangesSynced,
+  saveSyncSettings
+} from './indexedDB';
+
+/**
+ * Call the sync server, turning network and HTTP failures into readable errors
+ */
+async function request<T>(settings: SyncSettings, path: string, init: RequestInit = {}): Promise<T> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.token) {
+    headers.Authorization = `Bearer ${settings.token}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${settings.url.replace(/\/+$/, '')}${path}`, { ...init, headers });
+  } catch {
+    throw new Error('Could not reach the sync server');
+  }
+
+  if (response.status === 401) {
+    throw new Error('The sync server did not accept the token');
+  }
+  if (!response.ok) {
+    throw new Error(`The sync server responded with ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Pull changes from the sync server, then push local changes that don't conflict.
+ * See docs/sync-protocol.md.
+ */
+export async function syncBooks(): Promise<SyncResult> {
+  const settings = await getSyncSettings();
+  if (!settings.url) {
+    throw new Error('No sync server configured');
+  }
+
+  const pull = await request<PullResponse>(settings, `/books?since=${settings.cursor}`);
+  const records = pull.records.filter(record => record.deleted || record.book);
+  const { applied, conflicts } = await applyRemoteRecords(records);
+
+  // Conflicting books wait for the user to choose a version
+  const conflictIds = new Set(conflicts.map(conflict => conflict.record.id));
+  const changes = (await getLocalChanges()).filter(change => !conflictIds.has(change.id));
+  let pushed = 0;
+
+  if (changes.length > 0) {
+    const push = await request<PushResponse>(settings, '/books', {
+      method: 'POST',
+      body: JSON.stringify({ records: changes })
+    });
+    await markChangesSynced(changes, push.accepted);
+    pushed = push.accepted.length;
+
+    // Books another device changed since the pull
+    const rejected = await applyRemoteRecords(push.conflicts);
+    conflicts.push(...rejected.conflicts);
+  }
+
+  await saveSyncSettings({ ...settings, cursor: pull.cursor, lastSyncedAt: new Date() });
+  return { pulled: applied, pushed, conflicts };
+}
+
+/**
+ * Settle a conflict by keeping this device's version or taking the server's
+ */
+export async function resolveConflict(conflict: SyncConflict, resolution: ConflictResolution): Promise<void> {
+  if (resolution === 'remote') {
+    await applyRemoteRecords([conflict.record], true);
+  } else {
+    await keepLocalVersion(conflict.record);
+  }
+}
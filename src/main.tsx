@@ -1,6 +1,9 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { TagStylesProvider } from './components/TagStylesContext'
+import { LibraryOptionsProvider } from './components/LibraryOptionsContext'
+import { ShelvesProvider } from './components/ShelvesContext'
 import './index.css'
 
 const rootElement = document.getElementById('root')
@@ -10,6 +13,12 @@ if (!rootElement) {
 
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
-    <App />
+    <LibraryOptionsProvider>
+      <TagStylesProvider>
+        <ShelvesProvider>
+          <App />
+        </ShelvesProvider>
+      </TagStylesProvider>
+    </LibraryOptionsProvider>
   </React.StrictMode>,
 )
@@ -0,0 +1,59 @@
+/* Service worker template. The build (see serviceWorkerPlugin in vite.config.ts)
+ * fills in the placeholders below and emits the result as sw.js. */
+
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+const CACHE_PREFIX = 'book-log-';
+const CACHE_NAME = CACHE_PREFIX + BUILD_ID;
+
+// Relative URLs resolve against the worker's own location, i.e. the app base
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  // The new version waits until the app asks it to take over, see SKIP_WAITING
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS.map(scopeUrl)))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+
+  // Leave other origins (e.g. the metadata API) and the version check to the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (url.pathname.endsWith('/version.json')) return;
+
+  // Every page of the app is the same index.html, whatever the query string
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(scopeUrl('index.html')).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request))
+  );
+});
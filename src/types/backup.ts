@@ -0,0 +1,51 @@
+import type { Book, LanguageOption, FormatOption } from './book';
+import type { ProgressEntry } from './progress';
+import type { ReadingGoal } from './goal';
+import type { BackupCover } from './cover';
+import type { Shelf } from './shelf';
+import type { Quote } from './quote';
+
+export interface TagStyle {
+  color?: string; // Hex badge color, e.g. "#fde68a"
+  icon?: string; // Emoji shown before the tag name
+}
+
+export interface UsedTag extends TagStyle {
+  tag: string;
+  count: number;
+}
+
+// Current version of the backup file format
+export const BACKUP_VERSION = 1;
+export const BACKUP_FORMAT = 'book-log-backup';
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  books: Book[];
+  usedTags: UsedTag[];
+  progress: ProgressEntry[];
+  goals: ReadingGoal[];
+  covers?: BackupCover[]; // Only present when the export included cover images
+  languages?: LanguageOption[];
+  formats?: FormatOption[];
+  shelves?: Shelf[];
+  quotes?: Quote[];
+}
+
+// How an imported backup is combined with the existing library
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupConflict {
+  id: string;
+  title: string;
+  existingUpdatedAt: Date;
+  backupUpdatedAt: Date;
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number;
+}
@@ -1,5 +1,55 @@
-export type Language = 'English' | 'Swedish';
-export type Format = 'E-book' | 'Physical' | 'Audio';
+// ISO 639-1 language code, e.g. "en"
+export type Language = string;
+// Id of a configured format, e.g. "e-book"
+export type Format = string;
+
+export interface LanguageOption {
+  code: Language;
+  name: string; // Display name, e.g. "English"
+}
+
+export interface FormatOption {
+  id: Format;
+  name: string;
+  color?: string; // Hex badge color
+}
+
+// Languages and formats of a new library; both lists can be edited in settings
+export const DEFAULT_LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: 'English' },
+  { code: 'sv', name: 'Swedish' },
+];
+
+export const DEFAULT_FORMATS: FormatOption[] = [
+  { id: 'e-book', name: 'E-book', color: '#dbeafe' },
+  { id: 'physical', name: 'Physical', color: '#f3e8ff' },
+  { id: 'audio', name: 'Audio', color: '#fef3c7' },
+];
+
+// Values stored before languages and formats became configurable
+export const LEGACY_LANGUAGES: Record<string, Language> = { English: 'en', Swedish: 'sv' };
+export const LEGACY_FORMATS: Record<string, Format> = { 'E-book': 'e-book', Physical: 'physical', Audio: 'audio' };
+
+export type ReadingStatus = 'want-to-read' | 'reading' | 'paused' | 'finished' | 'did-not-finish';
+
+// Reading statuses in shelf order
+export const READING_STATUSES: { value: ReadingStatus; label: string }[] = [
+  { value: 'reading', label: 'Reading' },
+  { value: 'want-to-read', label: 'Want to read' },
+  { value: 'paused', label: 'Paused' },
+  { value: 'finished', label: 'Finished' },
+  { value: 'did-not-finish', label: 'Did not finish' },
+];
+
+// Statuses for which the book has been judged and a rating is required
+export const RATED_STATUSES: ReadingStatus[] = ['finished', 'did-not-finish'];
+
+// Statuses for which pages read so far are tracked
+export const IN_PROGRESS_STATUSES: ReadingStatus[] = ['reading', 'paused', 'did-not-finish'];
+
+export function getStatusLabel(status: ReadingStatus): string {
+  return READING_STATUSES.find(option => option.value === status)?.label || status;
+}
 
 // Predefined vibes
 export const PREDEFINED_VIBES = [
@@ -24,15 +74,20 @@ export interface Book {
   id: string;
   title: string;
   author: string;
+  isbn?: string; // Normalized ISBN-13
   genre: string;
   pages: number;
   language: Language;
   format: Format;
   vibes: string[]; // Array of vibes, can include predefined or custom ones
-  rating: number; // 1-10
+  status: ReadingStatus;
+  rating?: number; // 1-10, required once the book is finished or abandoned
   notes: string;
-  didNotFinish?: boolean; // Whether the book was not finished
-  pagesRead?: number; // Number of pages read (only relevant if didNotFinish is true)
+  pagesRead?: number; // Number of pages read so far (only relevant for in-progress statuses)
+  startedAt?: Date; // When reading started
+  finishedAt?: Date; // When the book was finished or abandoned
+  series?: string; // Name of the series the book belongs to
+  seriesPosition?: number; // Position within the series, e.g. 4 for "book 4 of Millennium"
   createdAt: Date;
   updatedAt: Date;
 }
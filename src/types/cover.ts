@@ -0,0 +1,15 @@
+export interface BookCover {
+  bookId: string;
+  blob: Blob;
+  updatedAt: Date;
+}
+
+// Cover as stored in a backup file, with the image as a base64 data URL
+export interface BackupCover {
+  bookId: string;
+  dataURL: string;
+}
+
+// Cover change submitted with the book form: a new image, null to remove
+// the cover, or undefined to leave it unchanged
+export type CoverChange = Blob | null | undefined;
@@ -0,0 +1,25 @@
+import type { Format, Language, ReadingStatus } from './book';
+
+export interface BookFilters {
+  query: string; // Free text matched against title, author, genre and notes
+  vibes: string[]; // Match books with any of these vibes
+  formats: Format[];
+  languages: Language[];
+  minRating?: number;
+  maxRating?: number;
+  status?: ReadingStatus; // Shelf being shown, or every book when undefined
+  author?: string; // Exact author name
+  period?: string; // Year ("2025") or month ("2025-03") the book was read
+}
+
+export const EMPTY_FILTERS: BookFilters = {
+  query: '',
+  vibes: [],
+  formats: [],
+  languages: [],
+  minRating: undefined,
+  maxRating: undefined,
+  status: undefined,
+  author: undefined,
+  period: undefined
+};
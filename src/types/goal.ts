@@ -0,0 +1,6 @@
+export interface ReadingGoal {
+  year: number;
+  targetBooks?: number;
+  targetPages?: number;
+  countDnfBooks: boolean; // Whether did-not-finish books count toward the book target
+}
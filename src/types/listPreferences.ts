@@ -0,0 +1,34 @@
+export type SortKey = 'updated' | 'title' | 'author' | 'rating' | 'pages' | 'created' | 'finished';
+export type SortDirection = 'asc' | 'desc';
+export type GroupMode = 'none' | 'author' | 'format' | 'language' | 'vibe' | 'year';
+
+export interface ListPreferences {
+  sortKey: SortKey;
+  sortDirection: SortDirection;
+  groupBy: GroupMode;
+}
+
+export const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'updated', label: 'Last updated' },
+  { key: 'title', label: 'Title' },
+  { key: 'author', label: 'Author' },
+  { key: 'rating', label: 'Rating' },
+  { key: 'pages', label: 'Pages' },
+  { key: 'created', label: 'Date added' },
+  { key: 'finished', label: 'Date finished' },
+];
+
+export const GROUP_OPTIONS: { mode: GroupMode; label: string }[] = [
+  { mode: 'none', label: 'No grouping' },
+  { mode: 'author', label: 'Author' },
+  { mode: 'format', label: 'Format' },
+  { mode: 'language', label: 'Language' },
+  { mode: 'vibe', label: 'First vibe' },
+  { mode: 'year', label: 'Year' },
+];
+
+export const DEFAULT_LIST_PREFERENCES: ListPreferences = {
+  sortKey: 'updated',
+  sortDirection: 'desc',
+  groupBy: 'none'
+};
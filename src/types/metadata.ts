@@ -0,0 +1,18 @@
+import type { Language } from './book';
+
+// Book details a metadata provider may know about; any of them can be missing
+export interface BookMetadata {
+  title?: string;
+  author?: string;
+  pages?: number;
+  language?: Language;
+}
+
+/**
+ * Source of book details by ISBN. Implementations resolve to null when the
+ * ISBN is unknown and reject when the lookup itself fails.
+ */
+export interface MetadataProvider {
+  name: string;
+  lookupISBN: (isbn13: string) => Promise<BookMetadata | null>;
+}
@@ -0,0 +1,10 @@
+export interface ProgressEntry {
+  id: string;
+  bookId: string;
+  startPage: number;
+  endPage: number;
+  date: Date; // Day the session took place
+  createdAt: Date;
+}
+
+export type ProgressEntryInput = Omit<ProgressEntry, 'id' | 'createdAt'>;
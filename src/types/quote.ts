@@ -0,0 +1,17 @@
+// A passage saved from a book
+export interface Quote {
+  id: string;
+  bookId: string;
+  text: string;
+  page?: number;
+  location?: string; // E-reader location, e.g. "1234-1240"
+  comment?: string;
+  tags: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type QuoteInput = Omit<Quote, 'id' | 'createdAt' | 'updatedAt'>;
+
+// A quote read from another app, which may know when it was saved
+export type ImportedQuote = Omit<QuoteInput, 'bookId'> & { createdAt?: Date };
@@ -0,0 +1,18 @@
+import type { BookInput } from './book';
+
+export type RevisionField = keyof BookInput;
+
+// One field changed by an update
+export interface FieldChange {
+  field: RevisionField;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Record of a single updateBook call, kept so the change can be reviewed and reverted
+export interface BookRevision {
+  id: string;
+  bookId: string;
+  changes: FieldChange[];
+  createdAt: Date;
+}
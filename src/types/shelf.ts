@@ -0,0 +1,8 @@
+// A named collection of books, e.g. "Book club 2026". A book can be on any number of shelves.
+export interface Shelf {
+  id: string;
+  name: string;
+  bookIds: string[]; // Books on the shelf, in display order
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,61 @@
+import type { Book } from './book';
+
+// A book as stored by the sync server, see docs/sync-protocol.md
+export interface SyncRecord {
+  id: string;
+  version: number; // Incremented by the server on every accepted change
+  updatedAt: string; // ISO timestamp
+  deleted: boolean; // Tombstone of a deleted book
+  book?: Book; // Omitted for tombstones; dates arrive as ISO strings
+}
+
+// A local change sent to the server
+export interface SyncChange {
+  id: string;
+  baseVersion: number; // Server version the change is based on, 0 for a new book
+  updatedAt: Date;
+  deleted: boolean;
+  book?: Book;
+}
+
+export interface PullResponse {
+  records: SyncRecord[];
+  cursor: number;
+}
+
+export interface PushResponse {
+  accepted: { id: string; version: number }[];
+  conflicts: SyncRecord[];
+}
+
+// What the device knows about the server copy of one book
+export interface SyncState {
+  id: string;
+  version: number; // Server version the local copy is based on
+  syncedAt?: Date; // updatedAt of the local copy when it was last synced
+  deletedAt?: Date; // Set when the book was deleted on this device (tombstone)
+}
+
+export interface SyncSettings {
+  url: string; // Base URL of the sync server, empty when sync is off
+  token: string; // Bearer token, if the server requires one
+  cursor: number; // Sequence number of the last change pulled
+  lastSyncedAt?: Date;
+}
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { url: '', token: '', cursor: 0 };
+
+// A book changed both here and on another device since the last sync
+export interface SyncConflict {
+  local: Book | null; // null when the book was deleted here
+  remote: Book | null; // null when the book was deleted on the other device
+  record: SyncRecord; // Server record the remote version came from
+}
+
+export type ConflictResolution = 'local' | 'remote';
+
+export interface SyncResult {
+  pulled: number; // Remote changes applied locally
+  pushed: number; // Local changes accepted by the server
+  conflicts: SyncConflict[];
+}
@@ -0,0 +1,9 @@
+import type { Book } from './book';
+
+// A deleted book, kept in the trash until it is restored or purged
+export interface TrashedBook extends Book {
+  deletedAt: Date;
+}
+
+// Days a book stays in the trash before it is purged, unless configured otherwise
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
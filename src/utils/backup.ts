@@ -0,0 +1,197 @@
+import type { Book, LanguageOption, FormatOption } from '../types/book';
+import type { LibraryBackup, BackupConflict, UsedTag } from '../types/backup';
+import { BACKUP_FORMAT, BACKUP_VERSION } from '../types/backup';
+import type { BackupCover } from '../types/cover';
+import type { Shelf } from '../types/shelf';
+import type { Quote } from '../types/quote';
+import { isHexColor } from './tagStyles';
+import { isLanguageCode } from './libraryOptions';
+
+/**
+ * Serialize a backup to pretty-printed JSON
+ */
+export function serializeBackup(backup: LibraryBackup): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+function isValidDate(value: unknown): boolean {
+  if (typeof value !== 'string' && !(value instanceof Date)) {
+    return false;
+  }
+  return !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Parse and validate the contents of a backup file.
+ * Throws an Error describing the first problem found.
+ */
+export function parseBackup(text: string): LibraryBackup {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!data || typeof data !== 'object' || data.format !== BACKUP_FORMAT) {
+    throw new Error('The file is not a Book Log backup');
+  }
+
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${data.version}`);
+  }
+
+  if (!Array.isArray(data.books)) {
+    throw new Error('The backup does not contain a list of books');
+  }
+
+  data.books.forEach((book: any, index: number) => {
+    if (!book || typeof book !== 'object') {
+      throw new Error(`Book #${index + 1} is not an object`);
+    }
+    if (typeof book.id !== 'string' || !book.id) {
+      throw new Error(`Book #${index + 1} is missing an id`);
+    }
+    if (typeof book.title !== 'string' || typeof book.author !== 'string') {
+      throw new Error(`Book "${book.id}" is missing a title or author`);
+    }
+    if (!isValidDate(book.createdAt) || !isValidDate(book.updatedAt)) {
+      throw new Error(`Book "${book.title}" has invalid dates`);
+    }
+    if ((book.startedAt && !isValidDate(book.startedAt)) || (book.finishedAt && !isValidDate(book.finishedAt))) {
+      throw new Error(`Book "${book.title}" has an invalid start or finish date`);
+    }
+  });
+
+  const ids = new Set<string>();
+  data.books.forEach((book: any) => {
+    if (ids.has(book.id)) {
+      throw new Error(`The backup contains the id "${book.id}" more than once`);
+    }
+    ids.add(book.id);
+  });
+
+  const usedTags: UsedTag[] = Array.isArray(data.usedTags)
+    ? data.usedTags
+        .filter((item: any) => item && typeof item.tag === 'string' && item.tag.trim())
+        .map((item: any) => ({
+          tag: item.tag.trim(),
+          count: typeof item.count === 'number' && item.count >= 0 ? item.count : 0,
+          color: isHexColor(item.color) ? item.color : undefined,
+          icon: typeof item.icon === 'string' && item.icon.trim() ? item.icon.trim() : undefined
+        }))
+    : [];
+
+  // Reading sessions and goals were added to backups later, so they are optional
+  const progress = Array.isArray(data.progress) ? data.progress : [];
+  progress.forEach((entry: any, index: number) => {
+    if (
+      !entry ||
+      typeof entry.id !== 'string' ||
+      typeof entry.bookId !== 'string' ||
+      typeof entry.startPage !== 'number' ||
+      typeof entry.endPage !== 'number' ||
+      !isValidDate(entry.date)
+    ) {
+      throw new Error(`Progress entry #${index + 1} is invalid`);
+    }
+  });
+
+  const goals = Array.isArray(data.goals)
+    ? data.goals.filter((goal: any) => goal && Number.isInteger(goal.year))
+    : [];
+
+  // Languages and formats only exist in backups made once they became configurable
+  const languages: LanguageOption[] | undefined = Array.isArray(data.languages)
+    ? data.languages
+        .filter((option: any) => option && isLanguageCode(option.code) && typeof option.name === 'string')
+        .map((option: any) => ({ code: option.code, name: option.name }))
+    : undefined;
+
+  const formats: FormatOption[] | undefined = Array.isArray(data.formats)
+    ? data.formats
+        .filter((option: any) => option && typeof option.id === 'string' && option.id && typeof option.name === 'string')
+        .map((option: any) => ({
+          id: option.id,
+          name: option.name,
+          color: isHexColor(option.color) ? option.color : undefined
+        }))
+    : undefined;
+
+  const shelves: Shelf[] | undefined = Array.isArray(data.shelves)
+    ? data.shelves
+        .filter((shelf: any) => shelf && typeof shelf.id === 'string' && typeof shelf.name === 'string' && shelf.name.trim())
+        .map((shelf: any) => ({
+          id: shelf.id,
+          name: shelf.name.trim(),
+          bookIds: Array.isArray(shelf.bookIds) ? shelf.bookIds.filter((id: any) => typeof id === 'string') : [],
+          createdAt: isValidDate(shelf.createdAt) ? new Date(shelf.createdAt) : new Date(),
+          updatedAt: isValidDate(shelf.updatedAt) ? new Date(shelf.updatedAt) : new Date()
+        }))
+    : undefined;
+
+  const quotes: Quote[] | undefined = Array.isArray(data.quotes)
+    ? data.quotes
+        .filter(
+          (quote: any) =>
+            quote && typeof quote.id === 'string' && typeof quote.bookId === 'string' && typeof quote.text === 'string'
+        )
+        .map((quote: any) => ({
+          id: quote.id,
+          bookId: quote.bookId,
+          text: quote.text,
+          page: typeof quote.page === 'number' ? quote.page : undefined,
+          location: typeof quote.location === 'string' && quote.location ? quote.location : undefined,
+          comment: typeof quote.comment === 'string' && quote.comment ? quote.comment : undefined,
+          tags: Array.isArray(quote.tags) ? quote.tags.filter((tag: any) => typeof tag === 'string') : [],
+          createdAt: isValidDate(quote.createdAt) ? new Date(quote.createdAt) : new Date(),
+          updatedAt: isValidDate(quote.updatedAt) ? new Date(quote.updatedAt) : new Date()
+        }))
+    : undefined;
+
+  let covers: BackupCover[] | undefined;
+  if (Array.isArray(data.covers)) {
+    covers = data.covers;
+    covers!.forEach((cover: any, index: number) => {
+      if (
+        !cover ||
+        typeof cover.bookId !== 'string' ||
+        typeof cover.dataURL !== 'string' ||
+        !cover.dataURL.startsWith('data:image/')
+      ) {
+        throw new Error(`Cover #${index + 1} is invalid`);
+      }
+    });
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    books: data.books,
+    usedTags,
+    progress,
+    goals,
+    covers,
+    languages,
+    formats,
+    shelves,
+    quotes
+  };
+}
+
+/**
+ * Find books in the backup whose id already exists in the library
+ */
+export function findConflicts(backup: LibraryBackup, existingBooks: Book[]): BackupConflict[] {
+  const existingById = new Map(existingBooks.map(book => [book.id, book]));
+
+  return backup.books
+    .filter(book => existingById.has(book.id))
+    .map(book => ({
+      id: book.id,
+      title: book.title,
+      existingUpdatedAt: existingById.get(book.id)!.updatedAt,
+      backupUpdatedAt: new Date(book.updatedAt)
+    }));
+}
@@ -0,0 +1,64 @@
+import type { Book } from '../types/book';
+import { toCSV } from './csv';
+
+export interface BookCsvOptions {
+  vibeSeparator: string;
+}
+
+export const VIBE_SEPARATORS = ['; ', ' | ', ', ', ' / '] as const;
+
+const COLUMNS = [
+  'id',
+  'title',
+  'author',
+  'isbn',
+  'genre',
+  'series',
+  'seriesPosition',
+  'pages',
+  'language',
+  'format',
+  'vibes',
+  'rating',
+  'status',
+  'didNotFinish',
+  'pagesRead',
+  'startedAt',
+  'finishedAt',
+  'notes',
+  'createdAt',
+  'updatedAt'
+] as const;
+
+/**
+ * Convert books to CSV with one column per field
+ */
+export function booksToCSV(books: Book[], { vibeSeparator }: BookCsvOptions): string {
+  const rows = books.map(book => {
+    const values: Record<(typeof COLUMNS)[number], string> = {
+      id: book.id,
+      title: book.title,
+      author: book.author,
+      isbn: book.isbn || '',
+      genre: book.genre,
+      series: book.series || '',
+      seriesPosition: book.seriesPosition !== undefined ? String(book.seriesPosition) : '',
+      pages: String(book.pages),
+      language: book.language,
+      format: book.format,
+      vibes: (book.vibes || []).join(vibeSeparator),
+      rating: book.rating !== undefined ? String(book.rating) : '',
+      status: book.status,
+      didNotFinish: book.status === 'did-not-finish' ? 'true' : 'false',
+      pagesRead: book.pagesRead !== undefined ? String(book.pagesRead) : '',
+      startedAt: book.startedAt ? book.startedAt.toISOString() : '',
+      finishedAt: book.finishedAt ? book.finishedAt.toISOString() : '',
+      notes: book.notes,
+      createdAt: book.createdAt.toISOString(),
+      updatedAt: book.updatedAt.toISOString()
+    };
+    return COLUMNS.map(column => values[column]);
+  });
+
+  return toCSV([[...COLUMNS], ...rows]);
+}
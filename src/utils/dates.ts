@@ -0,0 +1,77 @@
+import type { Book } from '../types/book';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Midnight at the start of the current local day
+ */
+export function today(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+/**
+ * Format a date for an <input type="date">, using local time
+ */
+export function toDateInputValue(date?: Date): string {
+  if (!date || isNaN(date.getTime())) return '';
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse the value of an <input type="date"> as a local date
+ */
+export function fromDateInputValue(value: string): Date | undefined {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Number of calendar days from start to end, counting both days
+ */
+export function readingDays(start: Date, end: Date): number {
+  const startDay = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const endDay = new Date(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endDay.getTime() - startDay.getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * Human-readable duration, e.g. "1 day", "12 days", "3 weeks"
+ */
+export function formatDuration(days: number): string {
+  if (days < 14) return `${days} ${days === 1 ? 'day' : 'days'}`;
+  if (days < 60) return `${Math.round(days / 7)} weeks`;
+  return `${Math.round(days / 30)} months`;
+}
+
+/**
+ * The date a book counts as read: its finish date, or when it was logged
+ * for books recorded without one
+ */
+export function getReadDate(book: Book): Date {
+  return book.finishedAt || book.createdAt;
+}
+
+/**
+ * Period key for a date: "2025" for a year or "2025-03" for a month
+ */
+export function toPeriodKey(date: Date, granularity: 'year' | 'month'): string {
+  const year = String(date.getFullYear());
+  return granularity === 'year' ? year : `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Readable label for a period key, e.g. "Mar 2025"
+ */
+export function formatPeriodKey(key: string): string {
+  const [year, month] = key.split('-');
+  if (!month) return year;
+  return new Date(Number(year), Number(month) - 1, 1).toLocaleDateString(undefined, {
+    month: 'short',
+    year: 'numeric'
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Trigger a browser download of text content as a file
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Build a dated filename, e.g. book-log-backup-2025-01-31.json
+ */
+export function datedFilename(prefix: string, extension: string): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `${prefix}-${date}.${extension}`;
+}
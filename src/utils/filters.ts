@@ -0,0 +1,95 @@
+import type { Book, ReadingStatus } from '../types/book';
+import { READING_STATUSES } from '../types/book';
+import type { BookFilters } from '../types/filters';
+import { EMPTY_FILTERS } from '../types/filters';
+import { getReadDate, toPeriodKey } from './dates';
+import { migrateFormat, migrateLanguage } from './libraryOptions';
+
+function parseStatus(params: URLSearchParams): ReadingStatus | undefined {
+  const status = params.get('status');
+  if (READING_STATUSES.some(option => option.value === status)) {
+    return status as ReadingStatus;
+  }
+  // Bookmarks from before reading statuses used a did-not-finish toggle
+  return params.get('dnf') === 'only' ? 'did-not-finish' : undefined;
+}
+
+function parseRating(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const rating = Number(value);
+  return rating >= 1 && rating <= 10 ? rating : undefined;
+}
+
+/**
+ * Read filters from URL search params, ignoring unknown values
+ */
+export function filtersFromSearchParams(params: URLSearchParams): BookFilters {
+  return {
+    query: params.get('q') || '',
+    vibes: params.getAll('vibe').filter(vibe => vibe.trim()),
+    // Bookmarks from before languages and formats were configurable use their names
+    formats: params.getAll('format').filter(format => format.trim()).map(migrateFormat),
+    languages: params.getAll('lang').filter(language => language.trim()).map(migrateLanguage),
+    minRating: parseRating(params.get('minRating')),
+    maxRating: parseRating(params.get('maxRating')),
+    status: parseStatus(params),
+    author: params.get('author') || undefined,
+    period: /^\d{4}(-\d{2})?$/.test(params.get('period') || '') ? params.get('period')! : undefined
+  };
+}
+
+/**
+ * Write filters to URL search params, omitting defaults so URLs stay short
+ */
+export function filtersToSearchParams(filters: BookFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) params.set('q', filters.query.trim());
+  filters.vibes.forEach(vibe => params.append('vibe', vibe));
+  filters.formats.forEach(format => params.append('format', format));
+  filters.languages.forEach(language => params.append('lang', language));
+  if (filters.minRating !== undefined) params.set('minRating', String(filters.minRating));
+  if (filters.maxRating !== undefined) params.set('maxRating', String(filters.maxRating));
+  if (filters.status) params.set('status', filters.status);
+  if (filters.author) params.set('author', filters.author);
+  if (filters.period) params.set('period', filters.period);
+  return params;
+}
+
+/**
+ * Whether any filter differs from the defaults
+ */
+export function hasActiveFilters(filters: BookFilters): boolean {
+  return filtersToSearchParams(filters).toString() !== filtersToSearchParams(EMPTY_FILTERS).toString();
+}
+
+/**
+ * Check a single book against every filter
+ */
+export function matchesFilters(book: Book, filters: BookFilters): boolean {
+  const query = filters.query.trim().toLowerCase();
+  if (query) {
+    const haystack = [book.title, book.author, book.genre, book.notes].join('\n').toLowerCase();
+    if (!haystack.includes(query)) return false;
+  }
+
+  if (filters.vibes.length > 0) {
+    const vibes = (book.vibes || []).map(vibe => vibe.toLowerCase());
+    if (!filters.vibes.some(vibe => vibes.includes(vibe.toLowerCase()))) return false;
+  }
+
+  if (filters.formats.length > 0 && !filters.formats.includes(book.format)) return false;
+  if (filters.languages.length > 0 && !filters.languages.includes(book.language)) return false;
+  if (filters.minRating !== undefined || filters.maxRating !== undefined) {
+    if (book.rating === undefined) return false;
+    if (filters.minRating !== undefined && book.rating < filters.minRating) return false;
+    if (filters.maxRating !== undefined && book.rating > filters.maxRating) return false;
+  }
+  if (filters.status && book.status !== filters.status) return false;
+  if (filters.author && book.author !== filters.author) return false;
+  if (filters.period) {
+    const granularity = filters.period.length === 4 ? 'year' : 'month';
+    if (toPeriodKey(getReadDate(book), granularity) !== filters.period) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,67 @@
+import type { Book } from '../types/book';
+import type { ReadingGoal } from '../types/goal';
+
+export interface TargetProgress {
+  target: number;
+  done: number;
+  expected: number; // Where steady progress would be by now
+  ahead: number; // Positive when ahead of schedule, negative when behind
+  neededPerWeek: number; // Pace required for the rest of the year
+}
+
+export interface GoalProgress {
+  books?: TargetProgress;
+  pages?: TargetProgress;
+  daysLeft: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start and end (inclusive) of a calendar year in local time
+ */
+export function yearRange(year: number): { start: Date; end: Date } {
+  return {
+    start: new Date(year, 0, 1),
+    end: new Date(year, 11, 31, 23, 59, 59, 999)
+  };
+}
+
+function targetProgress(target: number, done: number, elapsed: number, weeksLeft: number): TargetProgress {
+  const expected = target * elapsed;
+  const remaining = Math.max(0, target - done);
+  return {
+    target,
+    done,
+    expected,
+    ahead: done - expected,
+    neededPerWeek: weeksLeft > 0 ? remaining / weeksLeft : remaining
+  };
+}
+
+/**
+ * Measure progress toward a yearly goal from the books finished that year.
+ * Finished books count toward both targets. Did-not-finish books add their
+ * pages read, and count as books only when the goal says so.
+ */
+export function computeGoalProgress(goal: ReadingGoal, booksFinishedInYear: Book[], now = new Date()): GoalProgress {
+  const { start, end } = yearRange(goal.year);
+  const yearLength = end.getTime() - start.getTime();
+  const elapsed = Math.min(1, Math.max(0, (now.getTime() - start.getTime()) / yearLength));
+  const daysLeft = Math.max(0, Math.ceil((end.getTime() - Math.max(now.getTime(), start.getTime())) / DAY_MS));
+  const weeksLeft = daysLeft / 7;
+
+  const finished = booksFinishedInYear.filter(book => book.status === 'finished');
+  const dnf = booksFinishedInYear.filter(book => book.status === 'did-not-finish');
+
+  const bookCount = finished.length + (goal.countDnfBooks ? dnf.length : 0);
+  const pageCount =
+    finished.reduce((sum, book) => sum + book.pages, 0) +
+    dnf.reduce((sum, book) => sum + (book.pagesRead || 0), 0);
+
+  return {
+    books: goal.targetBooks ? targetProgress(goal.targetBooks, bookCount, elapsed, weeksLeft) : undefined,
+    pages: goal.targetPages ? targetProgress(goal.targetPages, pageCount, elapsed, weeksLeft) : undefined,
+    daysLeft
+  };
+}
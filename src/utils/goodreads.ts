@@ -0,0 +1,142 @@
+import type { BookInput, Format, ReadingStatus } from '../types/book';
+import { parseCSV } from './csv';
+import { validateBookInput, type BookInputErrors } from './validation';
+import { toISBN13 } from './isbn';
+
+export interface GoodreadsRow {
+  rowNumber: number; // 1-based line in the CSV, excluding the header
+  input: BookInput;
+  errors: BookInputErrors;
+}
+
+// Goodreads' built-in exclusive shelves, which map to a status rather than vibes
+const EXCLUSIVE_SHELVES = ['read', 'to-read', 'currently-reading'];
+
+const REQUIRED_COLUMNS = ['Title', 'Author'];
+
+/**
+ * Map a Goodreads binding (e.g. "Kindle Edition", "Audible Audio") to a format
+ */
+export function mapBinding(binding: string): Format {
+  const value = binding.toLowerCase();
+  if (value.includes('audio')) {
+    return 'audio';
+  }
+  if (value.includes('kindle') || value.includes('ebook') || value.includes('e-book') || value.includes('nook')) {
+    return 'e-book';
+  }
+  return 'physical';
+}
+
+/**
+ * Map a Goodreads exclusive shelf (read, to-read, currently-reading or a
+ * custom one such as "dnf") to a reading status
+ */
+export function mapExclusiveShelf(shelf: string): ReadingStatus {
+  const value = shelf.toLowerCase();
+  if (value === 'to-read') return 'want-to-read';
+  if (value === 'currently-reading') return 'reading';
+  if (/dnf|did-not-finish|abandon/.test(value)) return 'did-not-finish';
+  if (/pause|on-hold/.test(value)) return 'paused';
+  return 'finished';
+}
+
+/**
+ * Map Goodreads bookshelves ("fantasy, favorites, read") to vibes
+ */
+export function mapBookshelves(bookshelves: string, exclusiveShelf = ''): string[] {
+  return bookshelves
+    .split(',')
+    .map(shelf => shelf.trim())
+    .filter(shelf => shelf.length > 0 && !EXCLUSIVE_SHELVES.includes(shelf.toLowerCase()))
+    .filter(shelf => shelf.toLowerCase() !== exclusiveShelf.toLowerCase());
+}
+
+/**
+ * Split a Goodreads title such as "The Girl Who Played with Fire (Millennium, #2)"
+ * into the title and its series
+ */
+export function splitSeriesTitle(fullTitle: string): { title: string; series?: string; seriesPosition?: number } {
+  const match = /^(.*\S)\s*\(([^()]+?),?\s+#(\d+(?:\.\d+)?)\)$/.exec(fullTitle);
+  if (!match) return { title: fullTitle };
+  return { title: match[1], series: match[2].trim(), seriesPosition: Number(match[3]) };
+}
+
+/**
+ * Parse a Goodreads date such as "2024/03/17"
+ */
+function parseGoodreadsDate(value: string): Date | undefined {
+  const match = /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/.exec(value);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * Parse a Goodreads ISBN cell, which is exported as a formula such as ="9780306406157"
+ */
+function parseGoodreadsISBN(value: string): string | undefined {
+  const isbn = value.replace(/^="?|"$/g, '');
+  return isbn ? toISBN13(isbn) || undefined : undefined;
+}
+
+/**
+ * Convert a Goodreads review, which may contain <br/> tags, to plain text
+ */
+function reviewToNotes(review: string): string {
+  return review
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .trim();
+}
+
+/**
+ * Parse a Goodreads library export and map each row to book input.
+ * Every row is returned, along with the validation errors that would
+ * prevent it from being saved.
+ */
+export function parseGoodreadsCSV(text: string): GoodreadsRow[] {
+  const [header, ...rows] = parseCSV(text);
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const columns = header.map(column => column.trim());
+  const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`Not a Goodreads export: missing column ${missing.join(', ')}`);
+  }
+
+  return rows.map((row, index) => {
+    const get = (column: string): string => {
+      const columnIndex = columns.indexOf(column);
+      return columnIndex >= 0 ? (row[columnIndex] || '').trim() : '';
+    };
+
+    const myRating = Number(get('My Rating')) || 0;
+    const { title, series, seriesPosition } = splitSeriesTitle(get('Title'));
+    const input: BookInput = {
+      title,
+      author: get('Author'),
+      isbn: parseGoodreadsISBN(get('ISBN13')) || parseGoodreadsISBN(get('ISBN')),
+      genre: '',
+      pages: Number(get('Number of Pages')) || 0,
+      language: 'en',
+      format: mapBinding(get('Binding')),
+      vibes: mapBookshelves(get('Bookshelves'), get('Exclusive Shelf')),
+      status: mapExclusiveShelf(get('Exclusive Shelf')),
+      // Goodreads rates 1-5 stars, 0 meaning unrated
+      rating: myRating > 0 ? myRating * 2 : undefined,
+      notes: reviewToNotes(get('My Review')),
+      pagesRead: undefined,
+      finishedAt: parseGoodreadsDate(get('Date Read')),
+      series,
+      seriesPosition
+    };
+
+    return {
+      rowNumber: index + 1,
+      input,
+      errors: validateBookInput(input)
+    };
+  });
+}
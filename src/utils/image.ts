@@ -0,0 +1,70 @@
+// Longest edge of stored cover images, in pixels
+export const COVER_MAX_SIZE = 600;
+const COVER_QUALITY = 0.85;
+
+/**
+ * Downscale an image so its longest edge is at most maxSize, re-encoded as JPEG
+ */
+export async function downscaleImage(image: Blob, maxSize = COVER_MAX_SIZE): Promise<Blob> {
+  if (!image.type.startsWith('image/')) {
+    throw new Error('The file is not an image');
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(image);
+  } catch {
+    throw new Error('The image could not be read');
+  }
+
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Image processing is not supported in this browser');
+  }
+  // JPEG has no transparency, so paint a white background first
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      COVER_QUALITY
+    );
+  });
+}
+
+/**
+ * Encode a Blob as a base64 data URL
+ */
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Decode a base64 data URL back into a Blob
+ */
+export function dataURLToBlob(dataURL: string): Blob {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataURL);
+  if (!match || !match[2]) {
+    throw new Error('Invalid image data');
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: match[1] || 'application/octet-stream' });
+}
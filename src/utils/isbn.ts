@@ -0,0 +1,53 @@
+/**
+ * Strip hyphens and spaces from an ISBN and upper-case the check digit
+ */
+export function cleanISBN(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isValidISBN10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  const sum = isbn
+    .split('')
+    .reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+  return sum % 11 === 0;
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = first12
+    .split('')
+    .reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidISBN13(isbn: string): boolean {
+  return /^\d{13}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+/**
+ * Normalize an ISBN-10 or ISBN-13, with or without hyphens, to ISBN-13.
+ * Returns null if the checksum doesn't match.
+ */
+export function toISBN13(value: string): string | null {
+  const isbn = cleanISBN(value);
+  if (isValidISBN13(isbn)) return isbn;
+  if (isValidISBN10(isbn)) {
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  return null;
+}
+
+/**
+ * Convert an ISBN to ISBN-10. Only 978-prefixed ISBN-13s have an ISBN-10,
+ * so null is returned for anything else.
+ */
+export function toISBN10(value: string): string | null {
+  const isbn13 = toISBN13(value);
+  if (!isbn13 || !isbn13.startsWith('978')) return null;
+
+  const first9 = isbn13.slice(3, 12);
+  const sum = first9.split('').reduce((total, char, index) => total + Number(char) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return first9 + (check === 10 ? 'X' : String(check));
+}
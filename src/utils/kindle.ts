@@ -0,0 +1,289 @@
+import type { Book, BookInput } from '../types/book';
+import type { ImportedQuote } from '../types/quote';
+import { quoteKey } from './quotes';
+
+export interface KindleClipping {
+  title: string;
+  author: string;
+  kind: 'highlight' | 'note' | 'bookmark';
+  page?: number;
+  location?: string; // e.g. "170-172"
+  addedAt?: Date;
+  text: string;
+}
+
+// The clippings of one book, with notes attached to the highlights they belong to
+export interface KindleBook {
+  key: string;
+  title: string;
+  author: string;
+  quotes: ImportedQuote[];
+}
+
+const SEPARATOR = /^=+\s*$/m;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// Below this title similarity a book is never considered a match
+const MIN_TITLE_SIMILARITY = 0.8;
+
+/**
+ * Turn "Herbert, Frank" into "Frank Herbert"; several authors are separated by semicolons
+ */
+function parseKindleAuthor(value: string): string {
+  return value
+    .split(';')
+    .map(author => {
+      const parts = author.split(',').map(part => part.trim());
+      return parts.length === 2 && parts[1] ? `${parts[1]} ${parts[0]}` : author.trim();
+    })
+    .filter(author => author.length > 0)
+    .join(', ');
+}
+
+/**
+ * Split the first line of a clipping, "Dune (Herbert, Frank)", into title and author
+ */
+function parseTitleLine(line: string): { title: string; author: string } {
+  const match = /^(.*\S)\s*\(([^()]+)\)$/.exec(line);
+  if (!match) return { title: line, author: '' };
+  return { title: match[1], author: parseKindleAuthor(match[2]) };
+}
+
+/**
+ * Parse the "Added on" date of a clipping. Both "Sunday, March 17, 2024 9:41:12 PM"
+ * and "Sunday, 17 March 2024 21:41:12" are understood.
+ */
+function parseClippingDate(value: string): Date | undefined {
+  const match =
+    /(?:(\d{1,2}) ([a-z]+)|([a-z]+) (\d{1,2})),? (\d{4}),? (\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]m)?/i.exec(value);
+  if (!match) return undefined;
+
+  const month = MONTHS.indexOf((match[2] || match[3]).toLowerCase());
+  if (month < 0) return undefined;
+  let hours = Number(match[6]) % (match[9] ? 12 : 24);
+  if (match[9]?.toLowerCase() === 'pm') hours += 12;
+  return new Date(
+    Number(match[5]),
+    month,
+    Number(match[1] || match[4]),
+    hours,
+    Number(match[7]),
+    Number(match[8] || 0)
+  );
+}
+
+/**
+ * Parse the second line of a clipping, e.g.
+ * "- Your Highlight on page 12 | Location 170-172 | Added on Sunday, March 17, 2024 9:41:12 PM"
+ */
+function parseMetadataLine(line: string): Pick<KindleClipping, 'kind' | 'page' | 'location' | 'addedAt'> | null {
+  const kind = /highlight/i.test(line) ? 'highlight' : /note/i.test(line) ? 'note' : /bookmark/i.test(line) ? 'bookmark' : null;
+  if (!kind) return null;
+
+  const page = /\bpage (\d+)/i.exec(line);
+  const location = /\b(?:location|loc\.)\s*(\d+(?:-\d+)?)/i.exec(line);
+  const addedOn = /added on (.*)$/i.exec(line);
+  return {
+    kind,
+    page: page ? Number(page[1]) : undefined,
+    location: location ? location[1] : undefined,
+    addedAt: addedOn ? parseClippingDate(addedOn[1]) : undefined
+  };
+}
+
+/**
+ * Parse a Kindle "My Clippings.txt" file. Entries that can't be read are skipped.
+ */
+export function parseKindleClippings(text: string): KindleClipping[] {
+  const clippings: KindleClipping[] = [];
+
+  for (const entry of text.replace(/^\uFEFF/, '').split(SEPARATOR)) {
+    const lines = entry.split(/\r?\n/).map(line => line.replace(/^\uFEFF/, '').trim());
+    while (lines.length > 0 && !lines[0]) lines.shift();
+    if (lines.length < 2) continue;
+
+    const metadata = parseMetadataLine(lines[1]);
+    if (!metadata) continue;
+
+    clippings.push({
+      ...parseTitleLine(lines[0]),
+      ...metadata,
+      text: lines.slice(2).join('\n').trim()
+    });
+  }
+
+  if (text.trim() && clippings.length === 0) {
+    throw new Error('No clippings found. Is this a Kindle "My Clippings.txt" file?');
+  }
+  return clippings;
+}
+
+/**
+ * Start and end of a location such as "170-172" or "1234-40"
+ */
+function locationRange(location: string | undefined): [number, number] | null {
+  const match = location ? /^(\d+)(?:-(\d+))?$/.exec(location) : null;
+  if (!match) return null;
+  const start = Number(match[1]);
+  if (!match[2]) return [start, start];
+  // Older Kindles shorten the end, e.g. "1234-40" for 1234-1240
+  const end = match[2].length < match[1].length ? Number(match[1].slice(0, -match[2].length) + match[2]) : Number(match[2]);
+  return [start, end];
+}
+
+/**
+ * Group clippings by book. A note is attached as the comment of the highlight
+ * it was made on; notes without a highlight become quotes of their own.
+ * Bookmarks, empty clippings and highlights repeated or extended later are dropped.
+ */
+export function groupKindleClippings(clippings: KindleClipping[]): KindleBook[] {
+  const books = new Map<string, { title: string; author: string; clippings: KindleClipping[] }>();
+  for (const clipping of clippings) {
+    if (clipping.kind === 'bookmark' || !clipping.text) continue;
+    const key = `${clipping.title}\u0000${clipping.author}`;
+    const book = books.get(key) || { title: clipping.title, author: clipping.author, clippings: [] };
+    book.clippings.push(clipping);
+    books.set(key, book);
+  }
+
+  return Array.from(books, ([key, { title, author, clippings: bookClippings }]) => {
+    const highlights = bookClippings.filter(clipping => clipping.kind === 'highlight');
+    const keys = highlights.map(highlight => quoteKey(highlight.text));
+    // Changing a highlight on the Kindle adds a new clipping rather than replacing
+    // the old one, so keep only the last of identical or overlapping highlights
+    const kept = highlights.filter((_highlight, index) =>
+      !keys.some((other, otherIndex) =>
+        otherIndex !== index && other.includes(keys[index]) && (other !== keys[index] || otherIndex > index)
+      )
+    );
+
+    const quotes: ImportedQuote[] = kept.map(highlight => ({
+      text: highlight.text,
+      page: highlight.page,
+      location: highlight.location,
+      tags: [],
+      createdAt: highlight.addedAt
+    }));
+
+    for (const note of bookClippings.filter(clipping => clipping.kind === 'note')) {
+      const noteRange = locationRange(note.location);
+      const index = noteRange
+        ? kept.findIndex(highlight => {
+            const range = locationRange(highlight.location);
+            return range !== null && noteRange[0] >= range[0] && noteRange[0] <= range[1];
+          })
+        : -1;
+
+      if (index >= 0) {
+        const quote = quotes[index];
+        quote.comment = quote.comment ? `${quote.comment}\n${note.text}` : note.text;
+      } else {
+        quotes.push({
+          text: note.text,
+          page: note.page,
+          location: note.location,
+          tags: ['note'],
+          createdAt: note.addedAt
+        });
+      }
+    }
+
+    return { key, title, author, quotes };
+  });
+}
+
+/**
+ * Lowercase, without accents, punctuation or a leading article
+ */
+function normalizeForMatch(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^(the|a|an) /, '');
+}
+
+/**
+ * Drop a subtitle and anything in parentheses, e.g. the series of "Dune (Dune Chronicles, Book 1)"
+ */
+function mainTitle(title: string): string {
+  return title.replace(/\([^()]*\)|\[[^[\]]*\]/g, '').split(/:| - /)[0].trim();
+}
+
+/**
+ * Similarity of two strings between 0 and 1, based on shared letter pairs
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const pairs = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const pair = a.slice(i, i + 2);
+    pairs.set(pair, (pairs.get(pair) || 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const pair = b.slice(i, i + 2);
+    const count = pairs.get(pair) || 0;
+    if (count > 0) {
+      pairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+/**
+ * Whether two author strings share a name, e.g. "Frank Herbert" and "F. Herbert"
+ */
+function authorsOverlap(a: string, b: string): boolean {
+  const names = new Set(normalizeForMatch(a).split(' ').filter(name => name.length > 1));
+  return normalizeForMatch(b).split(' ').some(name => name.length > 1 && names.has(name));
+}
+
+/**
+ * Find the library book a Kindle book most likely is. Titles are compared
+ * loosely; unless the titles are identical, the authors must share a name too.
+ */
+export function matchKindleBook(kindleBook: Pick<KindleBook, 'title' | 'author'>, books: Book[]): Book | undefined {
+  const fullTitle = normalizeForMatch(kindleBook.title);
+  const shortTitle = normalizeForMatch(mainTitle(kindleBook.title));
+  let best: { book: Book; score: number } | undefined;
+
+  for (const book of books) {
+    const score = Math.max(
+      similarity(fullTitle, normalizeForMatch(book.title)),
+      similarity(shortTitle, normalizeForMatch(mainTitle(book.title)))
+    );
+    if (score < MIN_TITLE_SIMILARITY) continue;
+    if (score < 1 && !authorsOverlap(kindleBook.author, book.author)) continue;
+    if (!best || score > best.score) best = { book, score };
+  }
+
+  return best?.book;
+}
+
+/**
+ * Input for a new e-book created from a Kindle book
+ */
+export function kindleBookToInput(kindleBook: Pick<KindleBook, 'title' | 'author'>): BookInput {
+  return {
+    title: mainTitle(kindleBook.title) || kindleBook.title,
+    author: kindleBook.author || 'Unknown',
+    genre: '',
+    pages: 0,
+    language: 'en',
+    format: 'e-book',
+    vibes: [],
+    status: 'reading',
+    notes: ''
+  };
+}
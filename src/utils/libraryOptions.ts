@@ -0,0 +1,52 @@
+import type { Format, FormatOption, Language, LanguageOption } from '../types/book';
+import { LEGACY_FORMATS, LEGACY_LANGUAGES } from '../types/book';
+
+export function isLanguageCode(value: string): boolean {
+  return /^[a-z]{2}$/.test(value);
+}
+
+/**
+ * English name of an ISO 639-1 code, e.g. "de" -> "German", or the code
+ * itself if the browser doesn't know it
+ */
+export function getLanguageDisplayName(code: Language): string {
+  try {
+    const name = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' }).of(code);
+    return name || code;
+  } catch {
+    return code;
+  }
+}
+
+/**
+ * Turn a format name into an id, e.g. "Graphic novel" -> "graphic-novel"
+ */
+export function toFormatId(name: string): Format {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Map a stored language, which may be a legacy name such as "English", to its code
+ */
+export function migrateLanguage(value: string): Language {
+  return LEGACY_LANGUAGES[value] || value;
+}
+
+/**
+ * Map a stored format, which may be a legacy name such as "E-book", to its id
+ */
+export function migrateFormat(value: string): Format {
+  return LEGACY_FORMATS[value] || value;
+}
+
+export function getLanguageName(languages: LanguageOption[], code: Language): string {
+  return languages.find(option => option.code === code)?.name || getLanguageDisplayName(code);
+}
+
+export function getFormatName(formats: FormatOption[], id: Format): string {
+  return formats.find(option => option.id === id)?.name || id;
+}
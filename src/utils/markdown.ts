@@ -0,0 +1,292 @@
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'spoiler'; summary: string; children: MarkdownBlock[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const FENCE = /^\s*```/;
+// A spoiler block starts with ":::spoiler Optional summary" and ends with ":::"
+const SPOILER_START = /^\s*:::\s*spoiler\b\s*(.*)$/i;
+const SPOILER_END = /^\s*:::\s*$/;
+
+// Schemes links may use; anything else, e.g. javascript:, is shown as plain text
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Whether a link target is an absolute URL with a safe scheme
+ */
+export function isSafeUrl(href: string): boolean {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a line starts a block other than a paragraph
+ */
+function startsBlock(line: string): boolean {
+  return (
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    FENCE.test(line) ||
+    SPOILER_START.test(line)
+  );
+}
+
+/**
+ * Collect the lines of a list starting at `start`, returning its items' lines
+ * with the indentation of the item content removed
+ */
+function collectList(lines: string[], start: number): { ordered: boolean; first: number; items: string[][]; end: number } {
+  const firstMatch = LIST_ITEM.exec(lines[start])!;
+  const indent = firstMatch[1].length;
+  const ordered = /\d/.test(firstMatch[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = LIST_ITEM.exec(line);
+
+    if (match && match[1].length === indent && /\d/.test(match[2]) === ordered) {
+      contentIndent = match[0].length;
+      items.push([line.slice(contentIndent)]);
+      i++;
+      continue;
+    }
+
+    const lineIndent = line.length - line.trimStart().length;
+    if (!line.trim()) {
+      // A blank line only continues the list if indented content follows
+      const next = lines.slice(i + 1).find(candidate => candidate.trim());
+      const nextIndent = next ? next.length - next.trimStart().length : 0;
+      const nextItem = next ? LIST_ITEM.exec(next) : null;
+      const continues = next !== undefined && (nextIndent > indent || (nextItem && nextItem[1].length === indent));
+      if (!continues) break;
+      items[items.length - 1].push('');
+    } else if (lineIndent > indent) {
+      items[items.length - 1].push(line.slice(Math.min(lineIndent, contentIndent)));
+    } else if (!startsBlock(line) && lines[i - 1].trim()) {
+      // A lazy continuation of the item's paragraph
+      items[items.length - 1].push(line.trim());
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  return { ordered, first: ordered ? parseInt(firstMatch[2], 10) : 1, items, end: i };
+}
+
+/**
+ * Parse lines of Markdown into blocks
+ */
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (FENCE.test(line)) {
+      const end = lines.findIndex((candidate, index) => index > i && FENCE.test(candidate));
+      const stop = end < 0 ? lines.length : end;
+      blocks.push({ type: 'code', text: lines.slice(i + 1, stop).join('\n') });
+      i = stop + 1;
+      continue;
+    }
+
+    const spoiler = SPOILER_START.exec(line);
+    if (spoiler) {
+      // Spoilers may contain spoilers, so find the matching end
+      let depth = 1;
+      let end = i + 1;
+      for (; end < lines.length; end++) {
+        if (SPOILER_START.test(lines[end])) depth++;
+        if (SPOILER_END.test(lines[end]) && --depth === 0) break;
+      }
+      blocks.push({
+        type: 'spoiler',
+        summary: spoiler[1].trim() || 'Spoiler',
+        children: parseBlocks(lines.slice(i + 1, end))
+      });
+      i = end + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim() && (BLOCKQUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = collectList(lines, i);
+      blocks.push({
+        type: 'list',
+        ordered: list.ordered,
+        start: list.first,
+        items: list.items.map(parseBlocks)
+      });
+      i = list.end;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+interface InlineRule {
+  pattern: RegExp;
+  // Only tried when the previous character isn't a letter or digit, e.g. so snake_case stays as is
+  wordStart?: boolean;
+  toInline: (match: RegExpExecArray) => MarkdownInline;
+}
+
+const INLINE_RULES: InlineRule[] = [
+  {
+    pattern: /^\\([\\`*_{}[\]()#+\-.!>|~:])/,
+    toInline: match => ({ type: 'text', text: match[1] })
+  },
+  {
+    pattern: /^(`+)([\s\S]*?[^`])\1(?!`)/,
+    toInline: match => ({ type: 'code', text: match[2].trim() })
+  },
+  {
+    pattern: /^\[([^\]]*)\]\(\s*<?([^\s<>()]+)>?(?:\s+"[^"]*")?\s*\)/,
+    toInline: match =>
+      isSafeUrl(match[2])
+        ? { type: 'link', href: match[2], children: parseInline(match[1]) }
+        : { type: 'text', text: match[1] }
+  },
+  {
+    pattern: /^<([a-z][a-z0-9+.-]*:[^\s<>]+)>/i,
+    toInline: match => (isSafeUrl(match[1]) ? autolink(match[1]) : { type: 'text', text: match[0] })
+  },
+  {
+    pattern: /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_]/,
+    wordStart: true,
+    toInline: match => autolink(match[0])
+  },
+  {
+    pattern: /^\*\*(?=\S)([\s\S]*?\S)\*\*/,
+    toInline: match => ({ type: 'strong', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /^__(?=\S)([\s\S]*?\S)__(?![a-z0-9])/i,
+    wordStart: true,
+    toInline: match => ({ type: 'strong', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /^\*(?=[^\s*])([\s\S]*?[^\s*])\*/,
+    toInline: match => ({ type: 'em', children: parseInline(match[1]) })
+  },
+  {
+    pattern: /^_(?=[^\s_])([\s\S]*?[^\s_])_(?![a-z0-9])/i,
+    wordStart: true,
+    toInline: match => ({ type: 'em', children: parseInline(match[1]) })
+  }
+];
+
+function autolink(href: string): MarkdownInline {
+  return { type: 'link', href, children: [{ type: 'text', text: href.replace(/^mailto:/, '') }] };
+}
+
+/**
+ * Parse the text of a paragraph or heading. Line breaks are kept.
+ */
+function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    const rest = text.slice(i);
+    const afterWord = i > 0 && /[a-z0-9]/i.test(text[i - 1]);
+    let matched = false;
+    for (const rule of INLINE_RULES) {
+      if (rule.wordStart && afterWord) continue;
+      const match = rule.pattern.exec(rest);
+      if (!match) continue;
+      flush();
+      nodes.push(rule.toInline(match));
+      i += match[0].length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      buffer += text[i];
+      i++;
+    }
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse Markdown into blocks. Raw HTML is not supported and stays plain text.
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
@@ -0,0 +1,39 @@
+import type { BookInput } from '../types/book';
+import type { BookMetadata } from '../types/metadata';
+
+export const METADATA_FIELD_LABELS: Record<keyof BookMetadata, string> = {
+  title: 'title',
+  author: 'author',
+  pages: 'pages',
+  language: 'language'
+};
+
+export interface MetadataMerge {
+  changes: Partial<BookInput>; // Every field the lookup would change
+  conflicts: (keyof BookMetadata)[]; // Changed fields the user had already filled in
+}
+
+/**
+ * Work out which form fields a metadata lookup would change.
+ * isFilled tells whether the user has already entered a value for a field.
+ */
+export function mergeMetadata(
+  input: BookInput,
+  metadata: BookMetadata,
+  isFilled: (field: keyof BookMetadata) => boolean
+): MetadataMerge {
+  const changes: Partial<BookInput> = {};
+  const conflicts: (keyof BookMetadata)[] = [];
+
+  (Object.keys(METADATA_FIELD_LABELS) as (keyof BookMetadata)[]).forEach(field => {
+    const value = metadata[field];
+    if (value === undefined || value === input[field]) return;
+
+    (changes as Record<string, unknown>)[field] = value;
+    if (isFilled(field)) {
+      conflicts.push(field);
+    }
+  });
+
+  return { changes, conflicts };
+}
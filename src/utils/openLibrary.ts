@@ -0,0 +1,86 @@
+import type { Language } from '../types/book';
+import type { BookMetadata, MetadataProvider } from '../types/metadata';
+
+export const OPEN_LIBRARY_URL = 'https://openlibrary.org';
+
+// Open Library identifies languages by MARC code; map the common ones to ISO 639-1
+const MARC_LANGUAGES: Record<string, Language> = {
+  ara: 'ar',
+  chi: 'zh',
+  cze: 'cs',
+  dan: 'da',
+  dut: 'nl',
+  eng: 'en',
+  fin: 'fi',
+  fre: 'fr',
+  ger: 'de',
+  gre: 'el',
+  heb: 'he',
+  hun: 'hu',
+  ice: 'is',
+  ita: 'it',
+  jpn: 'ja',
+  kor: 'ko',
+  nor: 'no',
+  pol: 'pl',
+  por: 'pt',
+  rus: 'ru',
+  spa: 'es',
+  swe: 'sv',
+  tur: 'tr',
+  ukr: 'uk'
+};
+
+async function fetchJSON(url: string): Promise<any | null> {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Lookup failed (HTTP ${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Create a provider for the Open Library API, or any server exposing the same
+ * /isbn/{isbn}.json and /authors/{id}.json endpoints
+ */
+export function createOpenLibraryProvider(baseUrl = OPEN_LIBRARY_URL): MetadataProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    name: 'Open Library',
+    async lookupISBN(isbn13: string): Promise<BookMetadata | null> {
+      const edition = await fetchJSON(`${root}/isbn/${encodeURIComponent(isbn13)}.json`);
+      if (!edition) {
+        return null;
+      }
+
+      // Editions only reference their authors, so fetch the first one's name
+      let author: string | undefined;
+      const authorKey: unknown = edition.authors?.[0]?.key;
+      if (typeof authorKey === 'string') {
+        const authorRecord = await fetchJSON(`${root}${authorKey}.json`).catch(() => null);
+        author = typeof authorRecord?.name === 'string' ? authorRecord.name : undefined;
+      }
+
+      const languageKey: unknown = edition.languages?.[0]?.key;
+      const pages = Number(edition.number_of_pages);
+
+      return {
+        title: typeof edition.title === 'string' ? edition.title : undefined,
+        author,
+        pages: pages > 0 ? pages : undefined,
+        language: typeof languageKey === 'string' ? MARC_LANGUAGES[languageKey.split('/').pop()!] : undefined
+      };
+    }
+  };
+}
+
+/**
+ * The provider used by the app, configurable with VITE_METADATA_URL
+ */
+export const metadataProvider: MetadataProvider = createOpenLibraryProvider(
+  import.meta.env.VITE_METADATA_URL || OPEN_LIBRARY_URL
+);
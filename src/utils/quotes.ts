@@ -0,0 +1,35 @@
+import type { Book } from '../types/book';
+import type { Quote } from '../types/quote';
+
+/**
+ * Split comma-separated tags, dropping empty ones and duplicates
+ */
+export function parseQuoteTags(value: string): string[] {
+  return Array.from(new Set(value.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0)));
+}
+
+/**
+ * Whitespace- and case-insensitive form of a quote, used to spot duplicates
+ */
+export function quoteKey(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Where a quote is in its book, e.g. "p. 42 · loc. 1234-1240"
+ */
+export function formatQuoteLocation(quote: Quote): string {
+  return [quote.page !== undefined && `p. ${quote.page}`, quote.location && `loc. ${quote.location}`]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Case-insensitive match on the quote, its comment and tags, and its book's title and author
+ */
+export function matchesQuoteSearch(quote: Quote, book: Book | undefined, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [quote.text, quote.comment, ...quote.tags, book?.title, book?.author]
+    .some(value => value && value.toLowerCase().includes(q));
+}
@@ -0,0 +1,88 @@
+import type { Book, BookInput, ReadingStatus } from '../types/book';
+import { getStatusLabel } from '../types/book';
+import type { BookRevision, FieldChange, RevisionField } from '../types/revision';
+
+export const REVISION_FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  author: 'Author',
+  isbn: 'ISBN',
+  genre: 'Genre',
+  pages: 'Pages',
+  language: 'Language',
+  format: 'Format',
+  vibes: 'Vibes',
+  status: 'Status',
+  rating: 'Rating',
+  notes: 'Notes',
+  pagesRead: 'Pages read',
+  startedAt: 'Started',
+  finishedAt: 'Finished',
+  series: 'Series',
+  seriesPosition: 'Series position'
+};
+
+/**
+ * Display a field value of a book, or null for an empty value.
+ * Languages and formats are shown by name, using the configured lists.
+ */
+export function formatFieldValue(
+  field: RevisionField,
+  value: unknown,
+  names: { languageName: (code: string) => string; formatName: (id: string) => string }
+): string | null {
+  if (isEmpty(value)) return null;
+  if (value instanceof Date) return value.toLocaleDateString();
+  if (Array.isArray(value)) return value.join(', ');
+  switch (field) {
+    case 'status':
+      return getStatusLabel(value as ReadingStatus);
+    case 'language':
+      return names.languageName(value as string);
+    case 'format':
+      return names.formatName(value as string);
+    case 'rating':
+      return `${value}/10`;
+    default:
+      return String(value);
+  }
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) && isEmpty(b);
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  return a === b;
+}
+
+/**
+ * List the fields that differ between two versions of a book.
+ * Missing and empty values count as the same, so saving an untouched form records nothing.
+ */
+export function diffBooks(before: Partial<Book>, after: Partial<Book>): FieldChange[] {
+  return (Object.keys(REVISION_FIELD_LABELS) as RevisionField[])
+    .filter(field => !isSameValue(before[field], after[field]))
+    .map(field => ({ field, oldValue: before[field], newValue: after[field] }));
+}
+
+/**
+ * Work out the updates that return a book to how it was before a revision,
+ * undoing that revision and every later one. Revisions are ordered newest first.
+ */
+export function getRevertChanges(revisions: BookRevision[], revisionId: string): Partial<BookInput> {
+  const changes: Record<string, unknown> = {};
+  for (const revision of revisions) {
+    revision.changes.forEach(change => {
+      changes[change.field] = change.oldValue;
+    });
+    if (revision.id === revisionId) break;
+  }
+  return changes as Partial<BookInput>;
+}
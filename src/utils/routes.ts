@@ -0,0 +1,71 @@
+// Pages opened from the actions bar, each at #/<name>
+export const PANELS = [
+  'backup',
+  'goodreads',
+  'kindle',
+  'stats',
+  'series',
+  'tags',
+  'options',
+  'trash',
+  'sync',
+  'quotes'
+] as const;
+
+export type Panel = (typeof PANELS)[number];
+
+export type Route =
+  | { name: 'library' }
+  | { name: 'panel'; panel: Panel }
+  | { name: 'new' }
+  | { name: 'book'; id: string }
+  | { name: 'edit'; id: string }
+  | { name: 'not-found' };
+
+/**
+ * Read the route from a location hash such as "#/book/123/edit". Routes live in
+ * the hash so that every page works on a static host under any base path.
+ */
+export function parseRoute(hash: string): Route {
+  const segments = hash
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(segment => segment.length > 0);
+
+  let decoded: string[];
+  try {
+    decoded = segments.map(decodeURIComponent);
+  } catch {
+    return { name: 'not-found' };
+  }
+
+  const [first, id, action] = decoded;
+  if (decoded.length === 0) return { name: 'library' };
+  if (decoded.length === 1 && first === 'new') return { name: 'new' };
+  if (decoded.length === 1 && (PANELS as readonly string[]).includes(first)) {
+    return { name: 'panel', panel: first as Panel };
+  }
+  if (first === 'book' && id !== undefined) {
+    if (decoded.length === 2) return { name: 'book', id };
+    if (decoded.length === 3 && action === 'edit') return { name: 'edit', id };
+  }
+  return { name: 'not-found' };
+}
+
+/**
+ * The location hash of a route
+ */
+export function routeHash(route: Exclude<Route, { name: 'not-found' }>): string {
+  switch (route.name) {
+    case 'library':
+      return '#/';
+    case 'panel':
+      return `#/${route.panel}`;
+    case 'new':
+      return '#/new';
+    case 'book':
+      return `#/book/${encodeURIComponent(route.id)}`;
+    case 'edit':
+      return `#/book/${encodeURIComponent(route.id)}/edit`;
+  }
+}
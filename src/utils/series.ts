@@ -0,0 +1,32 @@
+import type { Book } from '../types/book';
+
+export type SeriesEntry =
+  | { kind: 'book'; position?: number; book: Book }
+  | { kind: 'gap'; position: number };
+
+/**
+ * Lay out a series in reading order, inserting a gap for every whole-numbered
+ * position up to the highest one that has no logged book.
+ * Books without a position are listed last.
+ */
+export function buildSeriesEntries(books: Book[]): SeriesEntry[] {
+  const numbered = books
+    .filter(book => book.seriesPosition !== undefined)
+    .sort((a, b) => a.seriesPosition! - b.seriesPosition!);
+  const unnumbered = books.filter(book => book.seriesPosition === undefined);
+
+  const entries: SeriesEntry[] = [];
+  let nextExpected = 1;
+
+  numbered.forEach(book => {
+    const position = book.seriesPosition!;
+    for (; nextExpected < position; nextExpected++) {
+      entries.push({ kind: 'gap', position: nextExpected });
+    }
+    entries.push({ kind: 'book', position, book });
+    nextExpected = Math.max(nextExpected, Math.floor(position) + 1);
+  });
+
+  unnumbered.forEach(book => entries.push({ kind: 'book', book }));
+  return entries;
+}
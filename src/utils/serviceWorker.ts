@@ -0,0 +1,68 @@
+export interface AppVersion {
+  version: string;
+  commit: string;
+}
+
+// Version of the code that is running, compared with version.json of the latest deploy
+export const RUNNING_VERSION: AppVersion = {
+  version: import.meta.env.VITE_APP_VERSION || '',
+  commit: import.meta.env.VITE_COMMIT_HASH || ''
+};
+
+export function isSameVersion(a: AppVersion, b: AppVersion): boolean {
+  return a.version === b.version && a.commit === b.commit;
+}
+
+/**
+ * Register the service worker that makes the app work offline.
+ * The dev server has no sw.js, so this only happens in production builds.
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return null;
+  const base = import.meta.env.BASE_URL;
+  return navigator.serviceWorker.register(`${base}sw.js`, { scope: base });
+}
+
+/**
+ * Fetch the version of the latest deploy, bypassing every cache.
+ * Returns null when offline.
+ */
+export async function fetchDeployedVersion(): Promise<AppVersion | null> {
+  try {
+    const response = await fetch(`${import.meta.env.BASE_URL}version.json`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return { version: String(data.version || ''), commit: String(data.commit || '') };
+  } catch {
+    return null;
+  }
+}
+
+function waitUntilInstalled(worker: ServiceWorker): Promise<void> {
+  return new Promise(resolve => {
+    if (worker.state === 'installed') {
+      resolve();
+      return;
+    }
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'installed' || worker.state === 'redundant') resolve();
+    });
+  });
+}
+
+/**
+ * Let the newly installed service worker take over, then reload into the new version.
+ * Falls back to a plain reload if no new worker is waiting.
+ */
+export async function applyUpdate(registration: ServiceWorkerRegistration | null): Promise<void> {
+  if (registration?.installing) {
+    await waitUntilInstalled(registration.installing);
+  }
+  const waiting = registration?.waiting;
+  if (!waiting) {
+    window.location.reload();
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,20 @@
+/**
+ * Move one item of a list to another position
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+}
+
+/**
+ * Apply a new order of the visible books to the full order of a shelf.
+ * Books that are hidden, e.g. by filters or because they are in the trash,
+ * keep their positions; the visible ones fill the remaining slots in their new order.
+ */
+export function mergeShelfOrder(bookIds: string[], visibleOrder: string[]): string[] {
+  const visible = new Set(visibleOrder);
+  const queue = [...visibleOrder];
+  return bookIds.map(id => (visible.has(id) ? queue.shift()! : id));
+}
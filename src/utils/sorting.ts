@@ -0,0 +1,121 @@
+import type { Book } from '../types/book';
+import type { GroupMode, ListPreferences, SortKey } from '../types/listPreferences';
+import { DEFAULT_LIST_PREFERENCES, GROUP_OPTIONS, SORT_OPTIONS } from '../types/listPreferences';
+import { getReadDate } from './dates';
+
+const PREFERENCES_KEY = 'book-log:list-preferences';
+
+export interface BookGroup {
+  key: string;
+  label: string;
+  books: Book[];
+}
+
+/**
+ * Load the saved sort and grouping, falling back to the defaults
+ */
+export function loadListPreferences(): ListPreferences {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}');
+    return {
+      sortKey: SORT_OPTIONS.some(option => option.key === saved.sortKey)
+        ? saved.sortKey
+        : DEFAULT_LIST_PREFERENCES.sortKey,
+      sortDirection: saved.sortDirection === 'asc' || saved.sortDirection === 'desc'
+        ? saved.sortDirection
+        : DEFAULT_LIST_PREFERENCES.sortDirection,
+      groupBy: GROUP_OPTIONS.some(option => option.mode === saved.groupBy)
+        ? saved.groupBy
+        : DEFAULT_LIST_PREFERENCES.groupBy
+    };
+  } catch {
+    return DEFAULT_LIST_PREFERENCES;
+  }
+}
+
+/**
+ * Persist the sort and grouping so they survive reloads
+ */
+export function saveListPreferences(preferences: ListPreferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.warn('Failed to save list preferences:', error);
+  }
+}
+
+function compareBooks(a: Book, b: Book, key: SortKey): number {
+  switch (key) {
+    case 'title':
+      return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    case 'author':
+      return a.author.localeCompare(b.author, undefined, { sensitivity: 'base' });
+    case 'rating':
+      // Unrated books sort below rated ones
+      return (a.rating ?? 0) - (b.rating ?? 0);
+    case 'pages':
+      return a.pages - b.pages;
+    case 'created':
+      return a.createdAt.getTime() - b.createdAt.getTime();
+    case 'updated':
+      return a.updatedAt.getTime() - b.updatedAt.getTime();
+    case 'finished':
+      // Books without a finish date sort as oldest
+      return (a.finishedAt?.getTime() ?? 0) - (b.finishedAt?.getTime() ?? 0);
+  }
+}
+
+/**
+ * Return a sorted copy of the books
+ */
+export function sortBooks(books: Book[], { sortKey, sortDirection }: ListPreferences): Book[] {
+  const direction = sortDirection === 'asc' ? 1 : -1;
+  return [...books].sort((a, b) => compareBooks(a, b, sortKey) * direction);
+}
+
+function groupKey(book: Book, mode: GroupMode): string {
+  switch (mode) {
+    case 'author':
+      return book.author.trim();
+    case 'format':
+      return book.format;
+    case 'language':
+      return book.language;
+    case 'vibe':
+      return book.vibes && book.vibes.length > 0 ? book.vibes[0] : '';
+    case 'year':
+      return String(getReadDate(book).getFullYear());
+    case 'none':
+      return '';
+  }
+}
+
+/**
+ * Split books into labelled groups, keeping the order of the input within each group.
+ * Years are listed newest first; other groups alphabetically by label, with books
+ * lacking a value last. getLabel turns stored codes, such as language codes, into names.
+ */
+export function groupBooks(
+  books: Book[],
+  mode: GroupMode,
+  getLabel: (key: string) => string = key => key
+): BookGroup[] {
+  const groups = new Map<string, Book[]>();
+  books.forEach(book => {
+    const key = groupKey(book, mode);
+    groups.set(key, [...(groups.get(key) || []), book]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, groupBooks]) => ({
+      key,
+      label: key ? getLabel(key) : mode === 'vibe' ? 'No vibe' : 'Unknown',
+      books: groupBooks
+    }))
+    .sort((a, b) => {
+      if (!a.key) return 1;
+      if (!b.key) return -1;
+      if (mode === 'year') return b.key.localeCompare(a.key);
+      return a.label.localeCompare(b.label, undefined, { sensitivity: 'base' });
+    });
+}
@@ -0,0 +1,128 @@
+import type { Book } from '../types/book';
+import { RATED_STATUSES } from '../types/book';
+import { getReadDate, toPeriodKey, formatPeriodKey } from './dates';
+
+export interface StatDatum {
+  key: string;
+  label: string;
+  value: number;
+  count?: number; // Number of books behind an average
+}
+
+export interface LibraryStats {
+  booksPerMonth: StatDatum[];
+  pagesPerMonth: StatDatum[];
+  booksPerYear: StatDatum[];
+  pagesPerYear: StatDatum[];
+  ratingByVibe: StatDatum[];
+  ratingByFormat: StatDatum[];
+  ratingByLanguage: StatDatum[];
+  dnfRate: number; // 0-1, share of judged books that were not finished
+  dnfCount: number;
+  finishedCount: number;
+  longestBooks: Book[];
+  shortestBooks: Book[];
+  topAuthors: StatDatum[];
+}
+
+// Number of months shown in the monthly charts, ending with the current one
+const MONTHS_SHOWN = 12;
+const TOP_COUNT = 5;
+
+function lastMonthKeys(count: number): string[] {
+  const now = new Date();
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (count - 1 - index), 1);
+    return toPeriodKey(date, 'month');
+  });
+}
+
+/**
+ * Count books and sum pages per period, in the order of the given keys
+ */
+function totalsPerPeriod(
+  books: Book[],
+  granularity: 'year' | 'month',
+  keys: string[]
+): { books: StatDatum[]; pages: StatDatum[] } {
+  const bookCounts = new Map<string, number>(keys.map(key => [key, 0]));
+  const pageCounts = new Map<string, number>(keys.map(key => [key, 0]));
+
+  books.forEach(book => {
+    const key = toPeriodKey(getReadDate(book), granularity);
+    if (!bookCounts.has(key)) return;
+    bookCounts.set(key, bookCounts.get(key)! + 1);
+    pageCounts.set(key, pageCounts.get(key)! + book.pages);
+  });
+
+  const toData = (counts: Map<string, number>) =>
+    keys.map(key => ({ key, label: formatPeriodKey(key), value: counts.get(key)! }));
+
+  return { books: toData(bookCounts), pages: toData(pageCounts) };
+}
+
+/**
+ * Average rating per group, highest first; a book may belong to several groups
+ */
+function averageRatingBy(books: Book[], getKeys: (book: Book) => string[]): StatDatum[] {
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  books.forEach(book => {
+    if (book.rating === undefined) return;
+    getKeys(book).forEach(key => {
+      const total = totals.get(key) || { sum: 0, count: 0 };
+      totals.set(key, { sum: total.sum + book.rating!, count: total.count + 1 });
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([key, total]) => ({
+      key,
+      label: key,
+      value: Math.round((total.sum / total.count) * 10) / 10,
+      count: total.count
+    }))
+    .sort((a, b) => b.value - a.value || b.count - a.count);
+}
+
+/**
+ * Compute reading statistics from the stored books.
+ * Reading volume only counts finished books, dated by when they were read.
+ */
+export function computeStats(books: Book[]): LibraryStats {
+  const finished = books.filter(book => book.status === 'finished');
+  const dnfCount = books.filter(book => book.status === 'did-not-finish').length;
+  // Only finished and abandoned books are rated
+  const rated = books.filter(book => RATED_STATUSES.includes(book.status));
+
+  const monthly = totalsPerPeriod(finished, 'month', lastMonthKeys(MONTHS_SHOWN));
+  const years = Array.from(new Set(finished.map(book => toPeriodKey(getReadDate(book), 'year')))).sort();
+  const yearly = totalsPerPeriod(finished, 'year', years);
+
+  const withPages = finished.filter(book => book.pages > 0).sort((a, b) => b.pages - a.pages);
+
+  // Grouped by the stored value, which the author filter matches exactly
+  const authorCounts = new Map<string, number>();
+  finished.forEach(book => {
+    authorCounts.set(book.author, (authorCounts.get(book.author) || 0) + 1);
+  });
+
+  return {
+    booksPerMonth: monthly.books,
+    pagesPerMonth: monthly.pages,
+    booksPerYear: yearly.books,
+    pagesPerYear: yearly.pages,
+    ratingByVibe: averageRatingBy(rated, book => book.vibes || []),
+    ratingByFormat: averageRatingBy(rated, book => [book.format]),
+    ratingByLanguage: averageRatingBy(rated, book => [book.language]),
+    dnfRate: finished.length + dnfCount > 0 ? dnfCount / (finished.length + dnfCount) : 0,
+    dnfCount,
+    finishedCount: finished.length,
+    longestBooks: withPages.slice(0, TOP_COUNT),
+    shortestBooks: withPages.slice(-TOP_COUNT).reverse(),
+    topAuthors: Array.from(authorCounts.entries())
+      .map(([author, count]) => ({ key: author, label: author.trim(), value: count }))
+      .sort((a, b) => b.value - a.value || a.label.localeCompare(b.label))
+      .slice(0, 10)
+  };
+}
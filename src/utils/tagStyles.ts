@@ -0,0 +1,57 @@
+import type { TagStyle } from '../types/backup';
+
+// Built-in look of the predefined vibes, used until the user picks a color
+const PREDEFINED_VIBE_CLASSES: Record<string, string> = {
+  'bloody mystery': 'vibe-bloody',
+  'cozy mystery': 'vibe-cozy',
+  'thriller': 'vibe-thriller',
+  'romance': 'vibe-romance',
+  'sci-fi': 'vibe-scifi',
+  'fantasy': 'vibe-fantasy',
+  'historical fiction': 'vibe-historical',
+  'dystopia': 'vibe-dystopia',
+  'comedy': 'vibe-comedy',
+  'drama': 'vibe-drama',
+  'mystery': 'vibe-mystery',
+  'horror': 'vibe-horror',
+  'biography': 'vibe-biography',
+  'self-help': 'vibe-selfhelp',
+  'philosophy': 'vibe-philosophy'
+};
+
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+/**
+ * Pick black or white text, whichever reads better on the given background
+ */
+export function getContrastColor(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map(index => parseInt(hex.slice(index, index + 2), 16) / 255);
+  // Relative luminance as defined by WCAG
+  const toLinear = (channel: number) =>
+    channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  const luminance = 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+  return luminance > 0.4 ? '#1f2937' : '#ffffff';
+}
+
+/**
+ * Inline style for a badge with a user-chosen background color
+ */
+export function getBadgeStyle(color: string): React.CSSProperties {
+  return { backgroundColor: color, color: getContrastColor(color) };
+}
+
+/**
+ * Class and inline style for a tag badge. A user-chosen color wins over the
+ * built-in look of predefined vibes; other tags get the default grey.
+ */
+export function getTagAppearance(
+  tag: string,
+  style: TagStyle | undefined
+): { className: string; style?: React.CSSProperties } {
+  if (style?.color && isHexColor(style.color)) {
+    return { className: 'vibe-custom-color', style: getBadgeStyle(style.color) };
+  }
+  return { className: PREDEFINED_VIBE_CLASSES[tag.toLowerCase()] || 'vibe-default' };
+}
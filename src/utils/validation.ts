@@ -0,0 +1,60 @@
+import type { BookInput } from '../types/book';
+import { RATED_STATUSES } from '../types/book';
+import { toISBN13 } from './isbn';
+
+export type BookInputErrors = Partial<Record<keyof BookInput, string>>;
+
+/**
+ * Validate book input, returning an error message per invalid field
+ */
+export function validateBookInput(input: BookInput): BookInputErrors {
+  const errors: BookInputErrors = {};
+
+  if (!input.title.trim()) {
+    errors.title = 'Title is required';
+  }
+
+  if (!input.author.trim()) {
+    errors.author = 'Author is required';
+  }
+
+  if (input.isbn && !toISBN13(input.isbn)) {
+    errors.isbn = 'Not a valid ISBN-10 or ISBN-13';
+  }
+
+  if (input.pages < 0) {
+    errors.pages = 'Pages must be a positive number';
+  }
+
+  if (input.rating === undefined || input.rating === null) {
+    if (RATED_STATUSES.includes(input.status)) {
+      errors.rating = 'Rating is required for finished and unfinished books';
+    }
+  } else if (input.rating < 1 || input.rating > 10) {
+    errors.rating = 'Rating must be between 1 and 10';
+  }
+
+  if (input.status === 'did-not-finish' && (input.pagesRead === undefined || input.pagesRead === null)) {
+    errors.pagesRead = 'Pages read is required when the book was not finished';
+  } else if (input.pagesRead !== undefined && input.pagesRead !== null) {
+    if (input.pagesRead < 0) {
+      errors.pagesRead = 'Pages read must be a positive number';
+    } else if (input.pagesRead > input.pages) {
+      errors.pagesRead = 'Pages read cannot exceed total pages';
+    }
+  }
+
+  if (input.startedAt && input.finishedAt && input.finishedAt < input.startedAt) {
+    errors.finishedAt = 'Finish date cannot be before start date';
+  }
+
+  if (input.seriesPosition !== undefined && input.seriesPosition !== null) {
+    if (!input.series || !input.series.trim()) {
+      errors.series = 'Series name is required when a position is given';
+    } else if (input.seriesPosition <= 0) {
+      errors.seriesPosition = 'Position must be a positive number';
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of an Open Library-compatible API, e.g. a local stub server
+  readonly VITE_METADATA_URL?: string;
+  // Set by the npm scripts from package.json
+  readonly VITE_APP_VERSION?: string;
+  // Set by the deploy workflow
+  readonly VITE_COMMIT_HASH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,11 +1,50 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import fs from 'fs'
 import path from 'path'
 
+const appVersion = {
+  version: process.env.VITE_APP_VERSION || '',
+  commit: process.env.VITE_COMMIT_HASH || ''
+}
+
+/**
+ * Emit sw.js, precaching every file of the build, and version.json, which the
+ * running app polls to find out that a new build has been deployed
+ */
+function serviceWorkerPlugin(): Plugin {
+  return {
+    name: 'book-log-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const publicDir = path.resolve(__dirname, 'public')
+      const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : []
+      const precacheUrls = ['./', ...Object.keys(bundle), ...publicFiles].sort()
+      // A local build has no commit hash, so fall back to the build time
+      const buildId = `${appVersion.version}-${appVersion.commit || Date.now()}`
+
+      const template = fs.readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf-8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__BUILD_ID__', JSON.stringify(buildId))
+          .replace('__PRECACHE_URLS__', JSON.stringify(precacheUrls))
+      })
+      this.emitFile({
+        type: 'asset',
+        fileName: 'version.json',
+        source: JSON.stringify(appVersion)
+      })
+    }
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   base: '/book-log/',
-  plugins: [react()],
+  plugins: [react(), serviceWorkerPlugin()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),